@@ -51,7 +51,7 @@ interface OceanWorldOptions {
     
     /** 
      * 鲨鱼自动移动间隔（毫秒）
-     * 当鼠标离开画布时，鲨鱼会自动随机游动，此配置控制改变方向的频率
+     * 漫游（wander）的鲨鱼大约每隔这段时间大幅改变一次方向和深度
      * @default 3000
      * @example 5000 // 每5秒改变一次方向
      */
@@ -108,1002 +108,6998 @@ interface OceanWorldOptions {
      * ]
      */
     waveColors?: string[];
+    
+    /** 
+     * 随机数种子
+     * 相同的种子与相同的输入序列会生成完全一致的场景，便于复现和快照测试
+     * @default 随机生成
+     * @example 42 // 每次加载都生成相同的场景
+     */
+    seed?: number;
+    
+    /** 
+     * 最大设备像素比
+     * 画布按设备像素分辨率渲染以保证高清屏清晰度，此配置限制像素比上限以兼顾性能
+     * @default 2
+     * @example 1 // 始终按 CSS 像素渲染，性能优先
+     */
+    maxPixelRatio?: number;
+    
+    /** 
+     * 鲨鱼外观配置
+     * 渐变色阶会根据背部与腹部颜色自动派生
+     * @default { backColor: '#36379b', bellyColor: '#eef0ff', finColor: '#36387f', eyeColor: '#2b2b40', showGills: true, showHighlights: true }
+     * @example { backColor: '#5b6770', bellyColor: '#f4f4f0', showGills: false } // 灰色鲨鱼，不显示鳃裂
+     */
+    sharkAppearance?: Partial<SharkAppearance>;
+    
+    /** 
+     * 单条鲨鱼的外观覆盖配置，按鲨鱼创建顺序循环使用
+     * 用于区分不同的鲨鱼，未指定的字段沿用 sharkAppearance
+     * @default []
+     * @example [{ backColor: '#c0392b' }, { backColor: '#2980b9' }] // 红蓝两色交替
+     */
+    sharkVariants?: Partial<SharkAppearance>[];
+    
+    /** 
+     * 是否启用点击/轻触交互
+     * 点击气泡会将其戳破，点击鲨鱼会选中并高亮该鲨鱼
+     * @default true
+     * @example false // 禁用点击交互
+     */
+    enableInteraction?: boolean;
+    
+    /** 
+     * 选中鲨鱼时的高亮轮廓颜色
+     * @default 'rgba(255, 255, 255, 0.9)'
+     * @example '#ffd700' // 金色轮廓
+     */
+    selectionColor?: string;
+    
+    /** 
+     * 气泡颜色，气泡自身的透明度会与该颜色叠加
+     * @default 'rgba(255, 255, 255, 1)'
+     * @example '#aee8ff' // 淡蓝色气泡
+     */
+    bubbleColor?: string;
+    
+    /** 
+     * 初始主题名称，主题提供背景、海浪、气泡和鲨鱼外观的默认值，显式传入的配置优先
+     * 内置主题：classic、tropical、deepSea、arctic、sunset、night
+     * @default 'classic'
+     * @example 'sunset' // 日落主题
+     */
+    theme?: string;
+    
+    /** 
+     * 海浪层配置，指定后将替代 waveCount / waveColors 自动生成的海浪层
+     * 每层可以是单一正弦波、多个正弦分量的叠加，或 Gerstner 尖峰波
+     * @default []
+     * @example [
+     *   { amplitude: 8, wavelength: 400, speed: 60, color: 'rgba(0, 80, 150, 0.5)' },
+     *   { shape: 'gerstner', steepness: 0.6, amplitude: 14, wavelength: 250, offset: 20 }
+     * ]
+     */
+    waves?: WaveLayerOptions[];
+    
+    /** 
+     * 海况（风力）系数，同时缩放所有海浪层的振幅与速度
+     * 0 为完全平静，1 为默认海况，大于 1 为波涛汹涌
+     * @default 1
+     * @example 2.5 // 风浪较大的海面
+     */
+    seaState?: number;
+    
+    /** 
+     * 是否启用水面涟漪
+     * 指针划过水面、鲨鱼靠近水面以及点击水面上方时会产生涟漪和水花
+     * @default true
+     * @example false // 水面只有海浪动画
+     */
+    enableRipples?: boolean;
+    
+    /** 
+     * 水面涟漪模拟参数
+     * @default { tension: 0.025, damping: 0.03, spread: 0.25, resolution: 8, dropletColor: 'rgba(220, 240, 255, 0.85)' }
+     * @example { damping: 0.01 } // 涟漪衰减更慢，传播得更远
+     */
+    ripples?: RippleOptions;
+    
+    /** 
+     * 气泡粒子与发射器配置
+     * 除 bubbleCount 个在整个海底随机生成的环境气泡外，还会从海底喷口、鲨鱼鳃部和点击位置发射气泡
+     * @default { maxParticles: 400, wobble: 1.5, growth: 0.6, highlight: true, popAtSurface: true, vents: [{ x: 0.15 }, { x: 0.7 }], gillBubbles: true, gillInterval: 2, gillBubbleCount: 3, pointerBurst: true, pointerBurstCount: 10 }
+     * @example { vents: [], gillBubbles: false } // 只保留环境气泡
+     */
+    bubbles?: BubbleOptions;
+    
+    /** 
+     * 是否绘制海床（沙丘、岩石、海草和珊瑚），启用后鲨鱼不会游进海床
+     * @default false
+     * @example true
+     */
+    enableSeabed?: boolean;
+    
+    /** 
+     * 海床配置
+     * @default { height: 0.12, dunes: 3, rockDensity: 0.25, kelpDensity: 0.4, coralDensity: 0.15, current: 1, sandColor: '#c8a96e', rockColor: '#5b6068', kelpColor: '#2f7d4a', coralColors: ['#ff6f61', '#ff9f68', '#d65db1'] }
+     * @example { height: 0.2, kelpDensity: 1 } // 更高的海床和茂密的海草
+     */
+    seabed?: SeabedOptions;
+    
+    /** 
+     * 景深配置：鲨鱼和气泡带有深度 z（0 为最近，1 为最远），远处的实体更小、更慢、更接近背景色，并随指针产生视差
+     * @default { enabled: true, farScale: 0.55, fog: 0.5, parallax: 15 }
+     * @example { parallax: 0 } // 关闭视差
+     */
+    depth?: DepthOptions;
+    
+    /** 
+     * 是否将鲨鱼的静态部分预渲染为离屏精灵，每帧只绘制摆动的尾巴
+     * 运行环境不支持离屏画布时自动退回逐帧绘制
+     * @default true
+     * @example false // 每帧完整绘制鲨鱼
+     */
+    spriteCache?: boolean;
+    
+    /** 
+     * 自适应画质配置
+     * 平均帧耗时持续超过预算时逐级降低画质（减少气泡、降低海浪采样精度、简化鲨鱼细节、降低像素比），帧耗时充裕后逐级恢复
+     * 画质调整依赖实际帧耗时并会改变随机数的消耗，因此指定了 seed 时默认关闭，以保证相同种子生成相同场景
+     * @default { enabled: true（指定 seed 时为 false）, frameBudget: 12, maxLevel: 4 }
+     * @example { frameBudget: 8 } // 更早开始降低画质，为页面其他脚本留出时间
+     */
+    adaptiveQuality?: AdaptiveQualityOptions;
+    
+    /** 
+     * 画布不可见（滚出视口或页面被隐藏）时是否暂停动画循环
+     * 重新可见后从暂停处继续，不会因间隔过长而跳变
+     * @default true
+     * @example false // 始终保持动画运行
+     */
+    pauseWhenHidden?: boolean;
+    
+    /** 
+     * 减弱动态效果配置
+     * 默认跟随系统的 prefers-reduced-motion 设置：calm 模式放慢所有动画并关闭视差，static 模式只绘制静止画面
+     * @default { enabled: 'auto', mode: 'calm', speed: 0.35 }
+     * @example { enabled: false } // 忽略系统设置，始终正常播放
+     */
+    reducedMotion?: ReducedMotionOptions;
+    
+    /** 
+     * 鲨鱼转向与游动的物理参数
+     * 鲨鱼按速度游动，加速、转向都有上限，接近目标时逐渐减速，并与附近的鲨鱼保持距离
+     * @default { acceleration: 2, maxTurnRate: Math.PI, arrivalRadius: 2, separation: 1, separationDistance: 1, maxPitch: 0.5, banking: 1 }
+     * @example { maxTurnRate: 6, separation: 2 } // 转向更灵活，彼此间距更大
+     */
+    steering?: SteeringOptions;
+    
+    /** 
+     * 鲨鱼行为状态机配置
+     * 没有外部指令时，鲨鱼按 rules 在 wander（漫游）、patrol（巡逻）、circle（绕指针打转）、idle（徘徊）、flee（逃离）、follow（跟随指针）、hunt（捕食）、rest（休息）之间切换
+     * 默认规则：指针快速逼近时逃离，饥饿时捕食、吃饱后休息，指针在画布内时绕指针打转，否则漫游并不时停下徘徊
+     * @default { initial: 'wander', rules: DEFAULT_BEHAVIOR_RULES, patrol: [], circleRadius: 3, fleeSpeed: 800, fleeDistance: 6, fleeBoost: 1.8 }
+     * @example { rules: [{ when: 'pointerPresent', to: 'follow' }, { when: 'pointerAbsent', to: 'wander' }] } // 直接游向指针
+     */
+    behavior?: SharkBehaviorOptions;
+    
+    /** 
+     * 鲨鱼可游动的范围
+     * 默认只在水面以下游动，指针和指令都不能把鲨鱼引出水面；可以开启偶尔跃出水面，并指定鲨鱼必须停留或必须避开的区域
+     * @default { belowSurface: true, surfaceMargin: 0.5, breaching: false, breachInterval: 20, breachHeight: 3, include: [], exclude: [] }
+     * @example { exclude: [{ x: 0, y: 0, width: 1, height: 0.1, units: 'ratio' }] } // 避开顶部导航栏
+     */
+    swimZones?: SwimZoneOptions;
+    
+    /** 
+     * 鱼群配置
+     * 小鱼按 boids 规则（对齐、聚集、分离）成群游动，附近有鲨鱼或指针时四散逃开
+     * @default { schools: 0, schoolSize: 20, size: 10, speed: 90, colors: ['#f4d35e', '#ff8c42', '#9ad1d4'], neighborRadius: 60, separationDistance: 16, alignment: 1, cohesion: 1, separation: 1.5, scatterDistance: 120 }
+     * @example { schools: 3, schoolSize: 30 } // 3 个鱼群，每群 30 条鱼
+     */
+    fish?: FishOptions;
+    
+    /** 
+     * 捕食生态模拟配置
+     * 开启后鲨鱼会逐渐饥饿，饥饿时搜寻并追捕附近的鱼，吃饱后休息；鱼群会逐渐繁殖，整群被吃光后过一段时间重新出现
+     * @default { enabled: false, hungerRate: 0.04, huntThreshold: 0.6, fullThreshold: 0.2, satiety: 0.25, detectionRange: 8, catchDistance: 0.4, huntBoost: 1.5, breedInterval: 4, respawnDelay: 10 }
+     * @example { enabled: true, hungerRate: 0.1 } // 鲨鱼更快饿，捕食更频繁
+     */
+    ecosystem?: EcosystemOptions;
+}
+
+// 捕食生态模拟配置
+interface EcosystemOptions {
+    /** 是否开启捕食生态模拟 */
+    enabled?: boolean;
+    /** 饥饿度每秒增加的量，饥饿度范围为 0-1 */
+    hungerRate?: number;
+    /** 饥饿度达到该值时开始捕食 */
+    huntThreshold?: number;
+    /** 饥饿度降到该值时停止捕食并休息 */
+    fullThreshold?: number;
+    /** 每吃一条鱼降低的饥饿度 */
+    satiety?: number;
+    /** 发现猎物的距离，以鲨鱼大小为单位 */
+    detectionRange?: number;
+    /** 嘴部与鱼的距离小于该值（以鲨鱼大小为单位）时捕获 */
+    catchDistance?: number;
+    /** 追捕时的速度倍数 */
+    huntBoost?: number;
+    /** 鱼群繁殖一条鱼的平均间隔（秒），数量达到 schoolSize 后不再繁殖 */
+    breedInterval?: number;
+    /** 整群被吃光后重新出现的等待时间（秒） */
+    respawnDelay?: number;
+}
+
+// 鱼群配置
+interface FishOptions {
+    /** 鱼群数量 */
+    schools?: number;
+    /** 每个鱼群中鱼的数量 */
+    schoolSize?: number;
+    /** 鱼的体长（像素） */
+    size?: number;
+    /** 最大游动速度（像素/秒） */
+    speed?: number;
+    /** 鱼的颜色，按鱼群循环使用 */
+    colors?: string[];
+    /** 感知同群邻居的半径（像素） */
+    neighborRadius?: number;
+    /** 与同伴保持的最小距离（像素） */
+    separationDistance?: number;
+    /** 与邻居速度对齐的强度 */
+    alignment?: number;
+    /** 向邻居中心聚集的强度 */
+    cohesion?: number;
+    /** 与邻居分离的强度 */
+    separation?: number;
+    /** 鲨鱼或指针进入该距离（像素）时鱼四散逃开 */
+    scatterDistance?: number;
+}
+
+// 鲨鱼可游动范围配置
+interface SwimZoneOptions {
+    /** 是否只能在水面以下游动 */
+    belowSurface?: boolean;
+    /** 与水面保持的距离，以鲨鱼大小为单位 */
+    surfaceMargin?: number;
+    /** 是否偶尔加速上浮并跃出水面，落回水中时溅起水花 */
+    breaching?: boolean;
+    /** 每条鲨鱼跃出水面的平均间隔（秒） */
+    breachInterval?: number;
+    /** 跃出水面的最大高度，以鲨鱼大小为单位 */
+    breachHeight?: number;
+    /** 鲨鱼只在这些区域内游动，为空时不限制 */
+    include?: SwimZone[];
+    /** 鲨鱼不会进入这些区域，并与区域边缘保持一倍体长的距离 */
+    exclude?: SwimZone[];
+}
+
+// 游动区域：矩形或多边形，units 为 ratio 时坐标为占画布宽高的比例，默认为画布像素
+type SwimZone =
+    | { x: number; y: number; width: number; height: number; units?: 'px' | 'ratio' }
+    | { points: Point[]; units?: 'px' | 'ratio' };
+
+// 鲨鱼行为状态机配置
+interface SharkBehaviorOptions {
+    /** 新鲨鱼的初始行为 */
+    initial?: string;
+    /** 行为切换规则，每帧按顺序检查，第一条满足条件的规则生效 */
+    rules?: SharkBehaviorRule[];
+    /** 巡逻路径点，坐标为占画布宽高的比例（0-1），为空时沿画布四周巡逻 */
+    patrol?: Point[];
+    /** 绕指针打转的半径，以鲨鱼大小为单位 */
+    circleRadius?: number;
+    /** 指针朝鲨鱼移动的速度超过该值（像素/秒）时鲨鱼逃离 */
+    fleeSpeed?: number;
+    /** 指针在该距离内（以鲨鱼大小为单位）快速逼近才会惊扰鲨鱼 */
+    fleeDistance?: number;
+    /** 逃离时的速度倍数 */
+    fleeBoost?: number;
+}
+
+// 行为切换条件：指针在画布内、指针不在画布内（或未启用鼠标跟随）、指针快速逼近、在当前行为中持续了 after 秒、
+// 饥饿度达到捕食阈值、饥饿度降到吃饱阈值（后两者只在开启捕食生态模拟时满足）
+type SharkBehaviorCondition = 'pointerPresent' | 'pointerAbsent' | 'pointerThreat' | 'timeout' | 'hungry' | 'full';
+
+// 行为切换规则
+interface SharkBehaviorRule {
+    /** 适用的当前行为，省略时适用于任意行为 */
+    from?: string[];
+    /** 切换到的行为 */
+    to: string;
+    /** 切换条件 */
+    when: SharkBehaviorCondition;
+    /** timeout 条件的持续时间范围（秒），每次进入行为时在范围内随机取值 */
+    after?: [number, number];
+}
+
+// 鲨鱼行为：没有外部指令时每帧为鲨鱼设置目标点，由转向物理负责游过去
+interface SharkBehavior {
+    /** 进入该行为时调用，可在 context.memory 中初始化状态 */
+    enter?(context: SharkBehaviorContext): void;
+    /** 每帧调用，dt 为本帧的模拟时间步长（秒） */
+    update(context: SharkBehaviorContext, dt: number): void;
+    /** 离开该行为时调用 */
+    exit?(context: SharkBehaviorContext): void;
+}
+
+// 传给鲨鱼行为的上下文
+interface SharkBehaviorContext {
+    readonly shark: SharkSnapshot;
+    /** 世界状态，同一帧内所有鲨鱼共享 */
+    readonly world: OceanWorldState;
+    /** 进入当前行为后经过的模拟时间（秒） */
+    readonly elapsed: number;
+    /** 行为的私有状态，切换行为时清空；会随快照保存，只应存放可 JSON 序列化的值 */
+    readonly memory: Record<string, unknown>;
+    /** 场景的随机数生成器，使用它可以保证场景可复现 */
+    readonly random: RandomSource;
+    /** 设置目标点与目标深度，arrive 为 false 时接近目标点不减速 */
+    setTarget(x: number, y: number, options?: { z?: number; arrive?: boolean }): void;
+    /** 设置本帧的速度倍数，默认 1 */
+    setSpeed(scale: number): void;
+}
+
+// 鲨鱼转向与游动的物理参数
+interface SteeringOptions {
+    /** 加速度：每秒最多改变的速度，以鲨鱼的最大速度为单位 */
+    acceleration?: number;
+    /** 最大转向速度（弧度/秒） */
+    maxTurnRate?: number;
+    /** 距离目标多远时开始减速，以鲨鱼大小为单位 */
+    arrivalRadius?: number;
+    /** 与附近鲨鱼的分离力强度，0 为关闭 */
+    separation?: number;
+    /** 需要保持的距离，以两条鲨鱼大小之和为单位 */
+    separationDistance?: number;
+    /** 上浮或下潜时身体的最大俯仰角（弧度） */
+    maxPitch?: number;
+    /** 转弯时身体侧倾的程度，0 为不侧倾，1 为最大 */
+    banking?: number;
+}
+
+// 减弱动态效果配置
+interface ReducedMotionOptions {
+    /** 是否启用，auto 为跟随系统的 prefers-reduced-motion 设置 */
+    enabled?: boolean | 'auto';
+    /** calm 为放慢动画并关闭视差，static 为只绘制静止画面，尺寸或配置变化时重绘 */
+    mode?: 'calm' | 'static';
+    /** calm 模式下的动画速度比例，0-1之间 */
+    speed?: number;
+}
+
+// 自适应画质配置
+interface AdaptiveQualityOptions {
+    /** 是否根据帧耗时自动调整画质，需要逐帧可复现的场景时应关闭 */
+    enabled?: boolean;
+    /** 每帧绘制耗时预算（毫秒），平均耗时超过预算时降低画质 */
+    frameBudget?: number;
+    /** 自动调整时允许的最低画质等级，0-4 之间 */
+    maxLevel?: number;
+}
+
+// 鲨鱼细节程度：low 省略胸鳍和次要鳍，medium 省略次要鳍
+type SharkDetail = 'high' | 'medium' | 'low';
+
+// 某一画质等级下的渲染参数
+interface OceanQualitySettings {
+    /** 环境气泡数量与发射频率的缩放比例 */
+    readonly bubbleScale: number;
+    /** 海浪绘制的采样间隔（像素） */
+    readonly waveSampleStep: number;
+    /** 鲨鱼细节程度 */
+    readonly sharkDetail: SharkDetail;
+    /** 像素比的缩放比例 */
+    readonly pixelRatioScale: number;
+}
+
+// 单个绘制层的耗时统计（毫秒，平滑后的每帧耗时）
+interface OceanLayerStats {
+    readonly id: string;
+    readonly update: number;
+    readonly draw: number;
+}
+
+// 运行时性能统计，时间单位为毫秒
+interface OceanStats {
+    /** 平滑后的实际帧率 */
+    readonly fps: number;
+    /** 平滑后的每帧更新与绘制耗时 */
+    readonly frameTime: number;
+    /** 各绘制层的耗时，按绘制顺序排列 */
+    readonly layers: readonly OceanLayerStats[];
+    /** 当前画质等级，0 为最高 */
+    readonly qualityLevel: number;
+    /** 实际使用的像素比 */
+    readonly pixelRatio: number;
+    readonly sharkCount: number;
+    /** 活跃粒子（气泡、水滴与破裂动画）数量 */
+    readonly particleCount: number;
+    readonly fishCount: number;
+}
+
+// 性能测试配置
+interface OceanBenchmarkOptions {
+    /** 鲨鱼数量，默认 50 */
+    sharkCount?: number;
+    /** 计时的帧数，默认 120 */
+    frames?: number;
+    /** 计时前预热的帧数（用于填充缓存），默认 10 */
+    warmupFrames?: number;
+    /** 其余场景配置，未指定 seed 时使用固定种子以便结果可比较 */
+    options?: OceanWorldOptions;
+}
+
+// 性能测试结果，时间单位为毫秒
+interface OceanBenchmarkResult {
+    sharkCount: number;
+    frames: number;
+    averageFrameTime: number;
+    minFrameTime: number;
+    maxFrameTime: number;
+    /** 95% 的帧不超过该耗时 */
+    p95FrameTime: number;
+    /** 按平均帧耗时折算的帧率 */
+    fps: number;
+}
+
+// 景深配置
+interface DepthOptions {
+    /** 是否启用景深，关闭时所有实体按原始大小绘制在同一平面 */
+    enabled?: boolean;
+    /** 最远处（z = 1）的缩放比例 */
+    farScale?: number;
+    /** 最远处向背景色混合的比例，0-1之间 */
+    fog?: number;
+    /** 最近处（z = 0）随指针水平偏移的最大距离（像素），越远偏移越小 */
+    parallax?: number;
+}
+
+// 鲨鱼的绘制变换：平移、旋转后再缩放，scaleX 为负时水平翻转
+interface SharkTransform {
+    x: number;
+    y: number;
+    rotation: number;
+    scaleX: number;
+    scaleY: number;
+}
+
+// 某一深度下的绘制投影：水平视差偏移、缩放和雾化程度
+interface DepthProjection {
+    offsetX: number;
+    scale: number;
+    fog: number;
+}
+
+// 海床配置
+interface SeabedOptions {
+    /** 海床最高处占画布高度的比例 */
+    height?: number;
+    /** 横跨画布的沙丘数量 */
+    dunes?: number;
+    /** 岩石密度（每 100 像素宽度的数量） */
+    rockDensity?: number;
+    /** 海草密度（每 100 像素宽度的数量） */
+    kelpDensity?: number;
+    /** 珊瑚密度（每 100 像素宽度的数量） */
+    coralDensity?: number;
+    /** 洋流强度，控制海草摆动幅度，0 为静止 */
+    current?: number;
+    /** 沙子颜色 */
+    sandColor?: string;
+    /** 岩石颜色 */
+    rockColor?: string;
+    /** 海草颜色 */
+    kelpColor?: string;
+    /** 珊瑚颜色，按顺序循环使用 */
+    coralColors?: string[];
+}
+
+// 气泡粒子与发射器配置
+interface BubbleOptions {
+    /** 粒子池容量，包括气泡、水滴和破裂动画，达到上限后不再发射新粒子 */
+    maxParticles?: number;
+    /** 气泡左右摆动的幅度（像素） */
+    wobble?: number;
+    /** 气泡从海底升到水面时的尺寸增长比例 */
+    growth?: number;
+    /** 是否绘制气泡的边缘和高光 */
+    highlight?: boolean;
+    /** 气泡是否在水面破裂，关闭时气泡会一直上升到画布之外 */
+    popAtSurface?: boolean;
+    /** 海底喷口 */
+    vents?: BubbleVentOptions[];
+    /** 鲨鱼是否从鳃部吐出气泡 */
+    gillBubbles?: boolean;
+    /** 每条鲨鱼吐气泡的平均间隔（秒） */
+    gillInterval?: number;
+    /** 每次吐出的气泡数量 */
+    gillBubbleCount?: number;
+    /** 点击水下空白处时是否喷出一团气泡 */
+    pointerBurst?: boolean;
+    /** 点击喷出的气泡数量 */
+    pointerBurstCount?: number;
+}
+
+// 海底喷口
+interface BubbleVentOptions {
+    /** 水平位置（占画布宽度的比例），0-1之间 */
+    x: number;
+    /** 每秒喷出的气泡数量，默认 1.5 */
+    rate?: number;
+    /** 喷口宽度（像素），默认 12 */
+    spread?: number;
+    /** 气泡最小初始尺寸（像素），默认 2 */
+    minSize?: number;
+    /** 气泡最大初始尺寸（像素），默认 5 */
+    maxSize?: number;
+}
+
+// 气泡来源：环境气泡、海底喷口、鲨鱼鳃部、点击喷出
+type BubbleSource = 'ambient' | 'vent' | 'gill' | 'pointer';
+
+// 粒子类型：气泡、水滴、破裂动画
+type ParticleKind = 'bubble' | 'droplet' | 'pop';
+
+// 水面涟漪模拟参数
+interface RippleOptions {
+    /** 弹簧张力，越大回弹越快 */
+    tension?: number;
+    /** 阻尼，越大涟漪衰减越快 */
+    damping?: number;
+    /** 向相邻水柱传播的比例（0-0.5） */
+    spread?: number;
+    /** 水柱间距（像素），越小越精细 */
+    resolution?: number;
+    /** 水滴颜色 */
+    dropletColor?: string;
+}
+
+// 海浪的单个正弦分量
+interface WaveComponent {
+    /** 振幅（像素） */
+    amplitude: number;
+    /** 波长（像素） */
+    wavelength: number;
+    /** 波峰移动速度（像素/秒），默认沿用所在海浪层的速度 */
+    speed?: number;
+    /** 初始相位（弧度） */
+    phase?: number;
+}
+
+// 海浪层配置
+interface WaveLayerOptions {
+    /** 振幅（像素），默认按层序号递增 */
+    amplitude?: number;
+    /** 波长（像素），默认按层序号递减 */
+    wavelength?: number;
+    /** 波峰移动速度（像素/秒），默认按层序号递增 */
+    speed?: number;
+    /** 移动方向：1 向右，-1 向左 */
+    direction?: 1 | -1;
+    /** 相对水面的垂直偏移（像素），默认每层下移 15 像素 */
+    offset?: number;
+    /** 填充颜色，默认按层循环使用 waveColors；指定后不受主题切换影响 */
+    color?: string;
+    /** 不透明度（0-1），与颜色自身的透明度叠加 */
+    opacity?: number;
+    /** 波形：sine 为正弦叠加，gerstner 为波峰更尖的 Gerstner 波 */
+    shape?: 'sine' | 'gerstner';
+    /** Gerstner 波的陡度（0-1），越大波峰越尖 */
+    steepness?: number;
+    /** 正弦分量，指定后海浪层为各分量之和，amplitude / wavelength 将被忽略 */
+    components?: WaveComponent[];
+}
+
+// 主题：背景、海浪、气泡与鲨鱼外观的整体配色
+interface OceanTheme {
+    /** 背景渐变，未指定 stops 时三种颜色使用 [0, waterLevel, 1]，否则均匀分布 */
+    backgroundGradient: { colors: string[]; stops?: number[] };
+    /** 海浪颜色，按层循环使用 */
+    waveColors: string[];
+    /** 气泡颜色 */
+    bubbleColor: string;
+    /** 鲨鱼外观 */
+    sharkAppearance: Partial<SharkAppearance>;
+}
+
+// 切换主题的选项
+interface ThemeTransitionOptions {
+    /** 过渡时长（毫秒），为 0 时立即切换 */
+    duration?: number;
+}
+
+// 鲨鱼外观
+interface SharkAppearance {
+    /** 背部颜色 */
+    backColor: string;
+    /** 腹部颜色 */
+    bellyColor: string;
+    /** 背鳍与次要鳍颜色 */
+    finColor: string;
+    /** 眼睛、嘴线与鼻孔颜色 */
+    eyeColor: string;
+    /** 是否绘制鳃裂 */
+    showGills: boolean;
+    /** 是否绘制腹部高光与眼睛反光 */
+    showHighlights: boolean;
+}
+
+// 添加鲨鱼时的单条鲨鱼配置
+interface SharkOptions {
+    /** 鲨鱼大小（像素），默认使用 sharkSize */
+    size?: number;
+    /** 移动速度，默认使用 sharkSpeed */
+    speed?: number;
+    /** 初始横坐标，默认随机 */
+    x?: number;
+    /** 初始纵坐标，默认随机 */
+    y?: number;
+    /** 初始深度（0 为最近，1 为最远），默认随机 */
+    z?: number;
+    /** 外观覆盖配置，默认按 sharkVariants 循环使用 */
+    appearance?: Partial<SharkAppearance>;
+    /** 初始行为，默认使用 behavior.initial */
+    behavior?: string;
+    /** 该鲨鱼专用的行为切换规则，默认使用 behavior.rules */
+    behaviorRules?: SharkBehaviorRule[];
+}
+
+// 路径点
+interface Point {
+    x: number;
+    y: number;
+}
+
+// 外部指令：指令存在时鲨鱼不再跟随指针或随机游动，到达终点后停留，直到 releaseShark
+type SharkCommand =
+    | { type: 'moveTo'; x: number; y: number }
+    | { type: 'path'; points: Point[]; index: number; loop: boolean };
+
+// 鲨鱼当前的运动模式
+type SharkMode = 'auto' | 'follow' | 'moveTo' | 'path';
+
+// 鲨鱼只读快照
+interface SharkSnapshot {
+    readonly id: number;
+    readonly x: number;
+    readonly y: number;
+    readonly z: number;
+    readonly size: number;
+    readonly speed: number;
+    readonly angle: number;
+    /** 当前速度分量（像素/秒） */
+    readonly vx: number;
+    readonly vy: number;
+    readonly direction: 'left' | 'right';
+    readonly targetX: number;
+    readonly targetY: number;
+    readonly mode: SharkMode;
+    /** 当前行为，存在外部指令时行为暂停 */
+    readonly behavior: string;
+    /** 是否正在跃出水面（包括冲出水面前的加速上浮） */
+    readonly breaching: boolean;
+    /** 饥饿度（0-1），未开启捕食生态模拟时保持不变 */
+    readonly hunger: number;
+    readonly appearance: Readonly<SharkAppearance>;
+}
+
+// 场景快照：可序列化为 JSON 的完整场景状态
+interface OceanWorldSnapshot {
+    /** 快照格式版本 */
+    version: number;
+    /** 保存时的画布逻辑尺寸，恢复到不同尺寸的画布时按比例缩放 */
+    size: WorldSize;
+    /** 保存时的完整配置（包含默认值） */
+    config: Required<OceanWorldOptions>;
+    time: number;
+    timeScale: number;
+    paused: boolean;
+    randomState: number;
+    nextSharkId: number;
+    selectedSharkId: number | null;
+    sharks: Shark[];
+    waves: Wave[];
+    bubbles: BubbleState[];
+    seabed: SeabedLayout | null;
+    fishSchools: FishSchool[];
+    fish: Fish[];
+    fishEaten: number;
+    fishBorn: number;
+}
+
+// 气泡的可序列化状态
+interface BubbleState {
+    source: BubbleSource;
+    x: number;
+    y: number;
+    /** 初始尺寸 */
+    size: number;
+    /** 上升速度（像素/秒） */
+    speed: number;
+    opacity: number;
+    /** 摆动相位 */
+    phase: number;
+    /** 深度 */
+    z: number;
+}
+
+// 海洋世界事件及其数据
+interface OceanWorldEventMap {
+    /** 每帧绘制完成后触发 */
+    frame: { time: number; delta: number };
+    /** 鲨鱼到达目标点（进入到达判定距离）时触发 */
+    sharkTargetReached: { shark: SharkSnapshot; targetX: number; targetY: number };
+    /** 鲨鱼朝向（左/右）改变时触发 */
+    sharkDirectionChanged: { shark: SharkSnapshot; direction: 'left' | 'right' };
+    /** 指针进入画布时触发 */
+    pointerEnter: { x: number; y: number };
+    /** 指针离开画布时触发 */
+    pointerLeave: { x: number; y: number };
+    /** 气泡在水面破裂（或浮出画布）并被回收时触发 */
+    bubbleRecycled: { bubble: BubbleSnapshot };
+    /** 画布尺寸或像素比变化时触发 */
+    resize: { width: number; height: number; pixelRatio: number };
+    /** 配置被修改时触发 */
+    configChanged: { changes: Partial<OceanWorldOptions> };
+    /** 点击/轻触画布时触发，entity 为被点击的实体 */
+    tap: { x: number; y: number; entity: OceanEntity | null };
+    /** 气泡被戳破时触发 */
+    bubblePopped: { bubble: BubbleSnapshot };
+    /** 鲨鱼被选中时触发 */
+    sharkSelected: { shark: SharkSnapshot };
+    /** 鲨鱼取消选中时触发 */
+    sharkDeselected: { id: number };
+    /** 画布可见性改变时触发，不可见时动画循环暂停 */
+    visibilityChanged: { visible: boolean };
+    /** 鲨鱼冲出水面时触发 */
+    sharkBreached: { shark: SharkSnapshot };
+    /** 鲨鱼吃掉一条鱼时触发 */
+    fishEaten: { shark: SharkSnapshot; fish: FishSnapshot };
+    /** 鲨鱼切换行为时触发 */
+    sharkBehaviorChanged: { shark: SharkSnapshot; behavior: string; previousBehavior: string };
+    /** 画质等级改变时触发，level 越大画质越低 */
+    qualityChanged: { level: number; previousLevel: number; settings: OceanQualitySettings };
+}
+
+// 事件监听函数
+type OceanWorldEventListener<K extends keyof OceanWorldEventMap> = (event: OceanWorldEventMap[K]) => void;
+
+// 按事件类型保存监听函数集合，取出的集合类型与事件类型对应
+interface OceanWorldListenerMap extends Map<keyof OceanWorldEventMap, Set<unknown>> {
+    get<K extends keyof OceanWorldEventMap>(type: K): Set<OceanWorldEventListener<K>> | undefined;
+    set<K extends keyof OceanWorldEventMap>(type: K, listeners: Set<OceanWorldEventListener<K>>): this;
+}
+
+// 绘制层：按 zIndex 从小到大依次更新，再依次绘制
+interface OceanLayer {
+    /** 唯一标识，内置层为 background、seabed、waves、bubbles、fish、sharks */
+    id: string;
+    /** 绘制顺序，数值小的先绘制；内置层依次为 0、100、200、300、350、400，默认 0 */
+    zIndex?: number;
+    /** 是否启用，停用的层既不更新也不绘制，默认 true */
+    enabled?: boolean;
+    /** 推进本层的状态，dt 为本帧的模拟时间步长（秒） */
+    update?(dt: number, world: OceanWorldState): void;
+    /** 绘制本层，坐标为画布逻辑坐标，绘制前后会保存和恢复画布状态 */
+    draw?(ctx: OceanRenderingContext, world: OceanWorldState): void;
+}
+
+// 绘制层信息
+interface OceanLayerInfo {
+    readonly id: string;
+    readonly zIndex: number;
+    readonly enabled: boolean;
+    readonly builtIn: boolean;
+}
+
+// 传给绘制层的只读世界状态：update 收到本帧更新前的状态，draw 收到所有层更新后的状态
+interface OceanWorldState {
+    readonly width: number;
+    readonly height: number;
+    readonly pixelRatio: number;
+    readonly waterLevel: number;
+    /** 水面的纵坐标（不含海浪和涟漪） */
+    readonly waterSurfaceY: number;
+    /** 模拟时间（毫秒） */
+    readonly time: number;
+    /** 本帧的模拟时间步长（秒） */
+    readonly delta: number;
+    readonly paused: boolean;
+    readonly sharks: readonly SharkSnapshot[];
+    readonly fish: readonly FishSnapshot[];
+    readonly selectedSharkId: number | null;
+    /** 指针位置，指针不在画布内时为 null */
+    readonly pointer: Readonly<Point> | null;
+}
+
+// 命中测试结果：指定位置下的实体
+type OceanEntity =
+    | { type: 'shark'; shark: SharkSnapshot }
+    | { type: 'bubble'; bubble: BubbleSnapshot };
+
+// 内部命中测试结果，保留对实体本身的引用
+type EntityHit =
+    | { type: 'shark'; shark: Shark }
+    | { type: 'bubble'; bubble: Particle };
+
+// 鱼只读快照
+interface FishSnapshot {
+    /** 所属鱼群的序号 */
+    readonly school: number;
+    readonly x: number;
+    readonly y: number;
+    readonly z: number;
+    /** 当前速度分量（像素/秒） */
+    readonly vx: number;
+    readonly vy: number;
+}
+
+// 捕食生态的种群统计
+interface EcosystemPopulation {
+    /** 鲨鱼数量 */
+    readonly sharks: number;
+    /** 处于捕食行为的鲨鱼数量 */
+    readonly hunting: number;
+    /** 鲨鱼的平均饥饿度 */
+    readonly averageHunger: number;
+    /** 鱼的总数 */
+    readonly fish: number;
+    /** 各鱼群中鱼的数量 */
+    readonly schools: readonly number[];
+    /** 累计被吃掉的鱼 */
+    readonly eaten: number;
+    /** 累计繁殖或重新出现的鱼 */
+    readonly born: number;
+}
+
+// 气泡只读快照
+interface BubbleSnapshot {
+    readonly source: BubbleSource;
+    readonly x: number;
+    readonly y: number;
+    readonly z: number;
+    readonly size: number;
+    readonly opacity: number;
 }
 
 interface Shark {
+    id: number;
     x: number;
     y: number;
+    z: number;
+    targetZ: number;
     size: number;
     speed: number;
+    /** 游动方向（弧度），受最大转向速度限制 */
     angle: number;
+    /** 当前游动速度（像素/秒） */
+    swimSpeed: number;
+    /** 朝向：1 为向右，-1 为向左，转身时在两者之间过渡 */
+    facing: number;
+    /** 身体俯仰角与侧倾程度（-1 到 1） */
+    pitch: number;
+    bank: number;
     tailAngle: number;
     tailDirection: number;
     targetX: number;
     targetY: number;
-    color: string;
-    isFollowingMouse: boolean;
-    autoMoveTimer: number;
-    nextMoveTime: number;
+    appearance: Partial<SharkAppearance>;
+    /** 当前行为状态 */
+    behavior: SharkBehaviorState;
+    /** 该鲨鱼专用的行为切换规则，为 null 时使用配置中的规则 */
+    behaviorRules: SharkBehaviorRule[] | null;
+    /** 行为设置的本帧速度倍数 */
+    speedScale: number;
+    /** 接近目标点时是否减速停下 */
+    arriveAtTarget: boolean;
+    /** 跃出水面的状态，为 null 时在水中正常游动 */
+    breach: SharkBreach | null;
+    /** 距离下一次跃出水面的时间（秒） */
+    nextBreach: number;
+    /** 饥饿度（0-1） */
+    hunger: number;
+    /** 咬合动画剩余的时间（秒） */
+    bite: number;
+    command: SharkCommand | null;
+    direction: 'left' | 'right';
+    hasArrived: boolean;
 }
 
-interface Wave {
+// 鲨鱼的行为状态
+interface SharkBehaviorState {
+    name: string;
+    /** 进入该行为后经过的模拟时间（秒） */
+    elapsed: number;
+    /** 进入行为时抽取的随机数，决定 timeout 规则的实际持续时间 */
+    roll: number;
+    memory: Record<string, unknown>;
+}
+
+// 跃出水面：先加速上浮（rise），冲出水面后按抛物线飞行（air），落回水中后结束
+interface SharkBreach {
+    phase: 'rise' | 'air';
+    /** 上浮阶段已经历的时间（秒） */
+    time: number;
+    /** 飞行阶段的速度（像素/秒） */
+    vx: number;
+    vy: number;
+}
+
+// 鱼群：同一鱼群的鱼位于同一深度，一起游向鱼群的目标点
+interface FishSchool {
+    z: number;
+    /** 目标点，占画布宽高的比例 */
+    goalX: number;
+    goalY: number;
+    /** 距离更换目标点的时间（秒） */
+    nextGoal: number;
+    /** 距离下一次繁殖（整群被吃光时为重新出现）的时间（秒） */
+    nextBirth: number;
+}
+
+interface Fish {
+    school: number;
+    x: number;
+    y: number;
+    vx: number;
+    vy: number;
+    /** 尾巴摆动相位 */
+    phase: number;
+}
+
+// 多边形边界上距离某点最近的点，以及该处指向多边形外侧的单位法向量
+interface PolygonProjection {
+    x: number;
     y: number;
+    normalX: number;
+    normalY: number;
+}
+
+// 海浪层内部使用的正弦分量，wavenumber = 2π / 波长
+interface WaveLayerComponent {
     amplitude: number;
-    frequency: number;
+    wavenumber: number;
     speed: number;
+    phase: number;
+}
+
+interface Wave {
+    y: number;
+    offset: number;
     color: string;
+    hasCustomColor: boolean;
+    opacity: number;
+    shape: 'sine' | 'gerstner';
+    steepness: number;
+    direction: 1 | -1;
+    components: WaveLayerComponent[];
     time: number;
 }
 
-class OceanWorld {
-    private canvas: HTMLCanvasElement;
-    private ctx: CanvasRenderingContext2D;
-    private config: Required<OceanWorldOptions>;
-    private sharks: Shark[] = [];
-    private waves: Wave[] = [];
-    private bubbles: Bubble[] = [];
-    private mouseX: number;
-    private mouseY: number;
-    private animationId: number | null = null;
-    private waterSurfaceY: number = 0;
-    private isMouseInCanvas: boolean = false;
+// 海床地形的正弦分量，频率以横跨画布的周期数表示
+interface SeabedDune {
+    frequency: number;
+    amplitude: number;
+    phase: number;
+}
 
-    constructor(canvasId: string, options: OceanWorldOptions = {}) {
-        const canvas = document.getElementById(canvasId);
-        if (!canvas || !(canvas instanceof HTMLCanvasElement)) {
-            throw new Error(`Canvas element with id '${canvasId}' not found`);
-        }
-        
-        this.canvas = canvas;
-        const context = this.canvas.getContext('2d');
-        if (!context) {
-            throw new Error('Could not get 2D context from canvas');
-        }
-        
-        this.ctx = context;
+// 海床上的岩石，x 为占画布宽度的比例
+interface SeabedRock {
+    x: number;
+    width: number;
+    height: number;
+    tilt: number;
+}
+
+// 海草，x 为占画布宽度的比例，height 为占画布高度的比例
+interface SeabedKelp {
+    x: number;
+    height: number;
+    width: number;
+    segments: number;
+    phase: number;
+}
+
+// 珊瑚的一根分枝，角度相对竖直方向
+interface SeabedCoralBranch {
+    angle: number;
+    length: number;
+    fork: number;
+}
+
+// 珊瑚，colorIndex 对应 coralColors 中的颜色
+interface SeabedCoral {
+    x: number;
+    size: number;
+    colorIndex: number;
+    branches: SeabedCoralBranch[];
+}
+
+// 程序生成的海床布局，位置按比例保存以便适应画布尺寸变化
+interface SeabedLayout {
+    dunes: SeabedDune[];
+    rocks: SeabedRock[];
+    kelp: SeabedKelp[];
+    corals: SeabedCoral[];
+}
+
+// 海床绘制用到的颜色，由海床配置中的颜色派生
+interface SeabedColors {
+    /** 由配置颜色拼接成的缓存键 */
+    key: string;
+    sandTop: string;
+    sandBottom: string;
+    rock: string;
+    rockHighlight: string;
+    kelp: string;
+    kelpLeaf: string;
+    corals: { branch: string; polyp: string }[];
+}
+
+// 基准帧率：所有速度类参数均按 60fps 下每帧的变化量定义
+const BASE_FPS = 60;
+
+// 单帧最大时间步长（秒），避免标签页切回或卡顿后出现大幅跳跃
+const MAX_FRAME_DELTA = 0.1;
+
+// 默认鲨鱼外观
+const DEFAULT_SHARK_APPEARANCE: SharkAppearance = {
+    backColor: '#36379b',
+    bellyColor: '#eef0ff',
+    finColor: '#36387f',
+    eyeColor: '#2b2b40',
+    showGills: true,
+    showHighlights: true
+};
+
+// 当前场景快照格式版本
+const SNAPSHOT_VERSION = 1;
+
+// 画质等级，0 为最高画质，依次减少气泡、放宽海浪采样间隔、简化鲨鱼并降低像素比
+const QUALITY_LEVELS: readonly OceanQualitySettings[] = [
+    { bubbleScale: 1, waveSampleStep: 5, sharkDetail: 'high', pixelRatioScale: 1 },
+    { bubbleScale: 0.75, waveSampleStep: 8, sharkDetail: 'high', pixelRatioScale: 1 },
+    { bubbleScale: 0.5, waveSampleStep: 12, sharkDetail: 'medium', pixelRatioScale: 0.85 },
+    { bubbleScale: 0.3, waveSampleStep: 16, sharkDetail: 'low', pixelRatioScale: 0.7 },
+    { bubbleScale: 0.15, waveSampleStep: 24, sharkDetail: 'low', pixelRatioScale: 0.5 }
+];
+
+// 默认自适应画质配置
+const DEFAULT_ADAPTIVE_QUALITY_OPTIONS: Required<AdaptiveQualityOptions> = {
+    enabled: true,
+    frameBudget: 12,
+    maxLevel: QUALITY_LEVELS.length - 1
+};
+
+// 默认减弱动态效果配置
+const DEFAULT_REDUCED_MOTION_OPTIONS: Required<ReducedMotionOptions> = {
+    enabled: 'auto',
+    mode: 'calm',
+    speed: 0.35
+};
+
+// 静态模式下需要重绘画面的事件
+const STATIC_REDRAW_EVENTS: ReadonlySet<keyof OceanWorldEventMap> = new Set<keyof OceanWorldEventMap>([
+    'resize', 'configChanged', 'tap', 'bubblePopped', 'sharkSelected', 'sharkDeselected'
+]);
+
+// 自适应画质统计平均帧耗时的时间窗口（秒）
+const QUALITY_SAMPLE_INTERVAL = 1;
+
+// 平均帧耗时低于预算的该比例并持续一段时间（秒）后恢复一级画质
+const QUALITY_HEADROOM = 0.5;
+const QUALITY_RESTORE_DELAY = 3;
+
+// 性能统计的平滑系数，越大越灵敏
+const STATS_SMOOTHING = 0.1;
+
+// 默认水面涟漪参数
+const DEFAULT_RIPPLE_OPTIONS: Required<RippleOptions> = {
+    tension: 0.025,
+    damping: 0.03,
+    spread: 0.25,
+    resolution: 8,
+    dropletColor: 'rgba(220, 240, 255, 0.85)'
+};
+
+// 指针距水面多近时会扰动水面（像素）
+const RIPPLE_POINTER_BAND = 25;
+
+// 水滴受到的重力加速度（像素/秒²）
+const DROPLET_GRAVITY = 900;
+
+// 默认气泡粒子与发射器配置
+const DEFAULT_BUBBLE_OPTIONS: Required<BubbleOptions> = {
+    maxParticles: 400,
+    wobble: 1.5,
+    growth: 0.6,
+    highlight: true,
+    popAtSurface: true,
+    vents: [{ x: 0.15 }, { x: 0.7 }],
+    gillBubbles: true,
+    gillInterval: 2,
+    gillBubbleCount: 3,
+    pointerBurst: true,
+    pointerBurstCount: 10
+};
+
+// 默认海床配置
+const DEFAULT_SEABED_OPTIONS: Required<SeabedOptions> = {
+    height: 0.12,
+    dunes: 3,
+    rockDensity: 0.25,
+    kelpDensity: 0.4,
+    coralDensity: 0.15,
+    current: 1,
+    sandColor: '#c8a96e',
+    rockColor: '#5b6068',
+    kelpColor: '#2f7d4a',
+    coralColors: ['#ff6f61', '#ff9f68', '#d65db1']
+};
+
+// 默认景深配置
+const DEFAULT_DEPTH_OPTIONS: Required<DepthOptions> = {
+    enabled: true,
+    farScale: 0.55,
+    fog: 0.5,
+    parallax: 15
+};
+
+// 内置绘制层及其默认 zIndex
+const BUILT_IN_LAYERS = { background: 0, seabed: 100, waves: 200, bubbles: 300, fish: 350, sharks: 400 } as const;
+
+// 默认转向与游动参数
+const DEFAULT_STEERING_OPTIONS: Required<SteeringOptions> = {
+    acceleration: 2,
+    maxTurnRate: Math.PI,
+    arrivalRadius: 2,
+    separation: 1,
+    separationDistance: 1,
+    maxPitch: 0.5,
+    banking: 1
+};
+
+// 转身、俯仰和侧倾的平滑速率（每秒）
+const FACING_EASING = 6;
+const PITCH_EASING = 4;
+const BANK_EASING = 4;
+
+// 转身过程中绘制宽度的下限，避免身体被压成一条线
+const MIN_FACING_SCALE = 0.2;
+
+// 侧倾到最大时身体竖直方向的压缩比例
+const BANK_SQUASH = 0.3;
+
+// 深度相差超过该值的鲨鱼互不影响
+const SEPARATION_DEPTH = 0.3;
+
+// 路径点的到达判定距离，以鲨鱼大小为单位，避免受转向限制的鲨鱼绕着路径点打转
+const WAYPOINT_RADIUS = 0.5;
+
+// 默认行为切换规则
+const DEFAULT_BEHAVIOR_RULES: SharkBehaviorRule[] = [
+    { when: 'pointerThreat', to: 'flee' },
+    { from: ['flee'], when: 'timeout', after: [1.5, 2.5], to: 'wander' },
+    { from: ['hunt'], when: 'full', to: 'rest' },
+    { from: ['rest'], when: 'timeout', after: [6, 12], to: 'wander' },
+    { from: ['wander', 'idle', 'patrol', 'circle'], when: 'hungry', to: 'hunt' },
+    { from: ['wander', 'idle', 'patrol'], when: 'pointerPresent', to: 'circle' },
+    { from: ['circle', 'follow'], when: 'pointerAbsent', to: 'wander' },
+    { from: ['wander'], when: 'timeout', after: [8, 15], to: 'idle' },
+    { from: ['idle'], when: 'timeout', after: [3, 6], to: 'wander' }
+];
+
+// 默认行为状态机配置
+const DEFAULT_BEHAVIOR_OPTIONS: Required<SharkBehaviorOptions> = {
+    initial: 'wander',
+    rules: DEFAULT_BEHAVIOR_RULES,
+    patrol: [],
+    circleRadius: 3,
+    fleeSpeed: 800,
+    fleeDistance: 6,
+    fleeBoost: 1.8
+};
+
+// 内置行为
+const BUILT_IN_BEHAVIORS = ['wander', 'patrol', 'circle', 'idle', 'flee', 'follow', 'hunt', 'rest'] as const;
+
+// 未配置巡逻路径点时沿画布四周巡逻（占画布宽高的比例）
+const DEFAULT_PATROL_POINTS: readonly Point[] = [
+    { x: 0.15, y: 0.4 },
+    { x: 0.85, y: 0.4 },
+    { x: 0.85, y: 0.75 },
+    { x: 0.15, y: 0.75 }
+];
+
+// 漫游方向每秒随机漂移的最大角度（弧度）
+const WANDER_JITTER = 1.5;
+
+// 漫游时前方目标点的距离，以鲨鱼大小为单位
+const WANDER_LOOKAHEAD = 4;
+
+// 绕指针打转时目标点沿圆周领先鲨鱼的角度（弧度）
+const CIRCLE_LEAD = 0.8;
+
+// 徘徊时的速度倍数与漂移范围（以鲨鱼大小为单位）
+const IDLE_SPEED = 0.3;
+const IDLE_DRIFT = 1.5;
+
+// 逃离时目标点的距离，以鲨鱼大小为单位
+const FLEE_LOOKAHEAD = 6;
+
+// 指针速度的平滑速率（每秒）
+const POINTER_VELOCITY_EASING = 20;
+
+// 默认可游动范围配置
+const DEFAULT_SWIM_ZONE_OPTIONS: Required<SwimZoneOptions> = {
+    belowSurface: true,
+    surfaceMargin: 0.5,
+    breaching: false,
+    breachInterval: 20,
+    breachHeight: 3,
+    include: [],
+    exclude: []
+};
+
+// 排除区域与鲨鱼保持的距离，以鲨鱼大小为单位
+const ZONE_PADDING = 1;
+
+// 朝排除区域游动时开始避让的距离，以鲨鱼大小为单位
+const ZONE_AVOIDANCE_RANGE = 2;
+
+// 跃出水面后的重力加速度（像素/秒²）
+const BREACH_GRAVITY = 1200;
+
+// 跃出水面前加速上浮的速度倍数与最长时间（秒），超时仍未冲出水面则放弃
+const BREACH_RISE_SPEED = 1.8;
+const BREACH_RISE_TIMEOUT = 4;
+
+// 飞行时身体的最大俯仰角（弧度）
+const BREACH_MAX_PITCH = 1.2;
+
+// 默认鱼群配置
+const DEFAULT_FISH_OPTIONS: Required<FishOptions> = {
+    schools: 0,
+    schoolSize: 20,
+    size: 10,
+    speed: 90,
+    colors: ['#f4d35e', '#ff8c42', '#9ad1d4'],
+    neighborRadius: 60,
+    separationDistance: 16,
+    alignment: 1,
+    cohesion: 1,
+    separation: 1.5,
+    scatterDistance: 120
+};
+
+// 鱼的转向灵敏度（每秒），越大越快趋近期望速度
+const FISH_AGILITY = 3;
+
+// 向邻居中心聚集的速率（每秒）
+const FISH_COHESION_RATE = 1;
+
+// 游向鱼群目标点的强度，以最大速度为单位
+const FISH_GOAL_WEIGHT = 0.3;
+
+// 鱼群更换目标点的间隔范围（秒）
+const FISH_GOAL_INTERVAL = [6, 14] as const;
+
+// 逃散的强度（以最大速度为单位）与逃散时的最大速度倍数
+const FISH_SCATTER_WEIGHT = 3;
+const FISH_SCATTER_BOOST = 2;
+
+// 鱼的最低速度，以最大速度为单位
+const FISH_MIN_SPEED = 0.3;
+
+// 深度相差超过该值的鲨鱼不会惊扰鱼群
+const FISH_THREAT_DEPTH = 0.4;
+
+// 预判前方位置的时间（秒）与超出可游动范围时转回的速率（每秒）
+const FISH_LOOKAHEAD = 0.5;
+const FISH_BOUNDS_RATE = 2;
+
+// 默认捕食生态模拟配置
+const DEFAULT_ECOSYSTEM_OPTIONS: Required<EcosystemOptions> = {
+    enabled: false,
+    hungerRate: 0.04,
+    huntThreshold: 0.6,
+    fullThreshold: 0.2,
+    satiety: 0.25,
+    detectionRange: 8,
+    catchDistance: 0.4,
+    huntBoost: 1.5,
+    breedInterval: 4,
+    respawnDelay: 10
+};
+
+// 鲨鱼只追捕深度相差不超过该值的鱼，并且只能咬到深度相差不超过 CATCH_DEPTH 的鱼
+const HUNT_DEPTH_RANGE = 0.5;
+const CATCH_DEPTH = 0.15;
+
+// 追捕时预判猎物位置的最长时间（秒）
+const HUNT_LEAD_TIME = 1;
+
+// 嘴部到鲨鱼中心的距离，以鲨鱼大小为单位
+const MOUTH_OFFSET = 0.75;
+
+// 咬合动画时长（秒）
+const BITE_DURATION = 0.4;
+
+// 休息时的速度倍数
+const REST_SPEED = 0.2;
+
+// 整群被吃光后重新出现的鱼占 schoolSize 的比例
+const RESPAWN_FRACTION = 0.5;
+
+// 鲨鱼深度趋近目标深度的平滑速率（每秒）
+const DEPTH_EASING = 0.4;
+
+// 视差跟随指针的平滑速率（每秒）
+const PARALLAX_EASING = 4;
+
+// 海床和海底喷口所在的深度
+const SEABED_DEPTH = 1;
+
+// 气泡摆动的角频率（弧度/秒）
+const BUBBLE_WOBBLE_FREQUENCY = 3;
+
+// 被戳破的气泡破裂动画时长（秒）
+const BUBBLE_POP_DURATION = 0.4;
+
+// 气泡在水面破裂的动画时长（秒）
+const BUBBLE_SURFACE_POP_DURATION = 0.25;
+
+// 海况变化的平滑速率（每秒）
+const SEA_STATE_EASING = 2;
+
+// 鲨鱼到达目标点的判定距离（像素）
+const ARRIVAL_DISTANCE = 5;
+
+// 点击命中气泡时的额外容差（像素），便于在触摸屏上点中小气泡
+const BUBBLE_HIT_TOLERANCE = 4;
+
+// 内置主题
+const BUILT_IN_THEMES: Record<string, OceanTheme> = {
+    classic: {
+        backgroundGradient: { colors: ['#1a2980', '#26d0ce', '#1a6d80'] },
+        waveColors: [
+            'rgba(0, 50, 100, 0.6)',
+            'rgba(0, 80, 150, 0.5)',
+            'rgba(0, 120, 200, 0.4)',
+            'rgba(0, 150, 220, 0.3)',
+            'rgba(0, 180, 240, 0.2)'
+        ],
+        bubbleColor: 'rgba(255, 255, 255, 1)',
+        sharkAppearance: { ...DEFAULT_SHARK_APPEARANCE }
+    },
+    tropical: {
+        backgroundGradient: { colors: ['#4fc3f7', '#00e5d4', '#00897b'] },
+        waveColors: [
+            'rgba(0, 200, 180, 0.5)',
+            'rgba(0, 170, 190, 0.4)',
+            'rgba(0, 140, 170, 0.3)',
+            'rgba(0, 110, 150, 0.25)',
+            'rgba(0, 90, 130, 0.2)'
+        ],
+        bubbleColor: 'rgba(255, 255, 255, 1)',
+        sharkAppearance: { backColor: '#4a6f8a', bellyColor: '#f5f1e6', finColor: '#3d5c73', eyeColor: '#1f2a33' }
+    },
+    deepSea: {
+        backgroundGradient: { colors: ['#0b132b', '#1c2541', '#02040a'] },
+        waveColors: [
+            'rgba(10, 30, 70, 0.6)',
+            'rgba(8, 24, 60, 0.5)',
+            'rgba(6, 18, 50, 0.4)',
+            'rgba(4, 12, 40, 0.35)',
+            'rgba(2, 8, 30, 0.3)'
+        ],
+        bubbleColor: 'rgba(120, 200, 255, 1)',
+        sharkAppearance: { backColor: '#2c3e50', bellyColor: '#95a5a6', finColor: '#22313f', eyeColor: '#0b0c10' }
+    },
+    arctic: {
+        backgroundGradient: { colors: ['#dfe9f3', '#a8d8ea', '#3a6073'] },
+        waveColors: [
+            'rgba(200, 230, 245, 0.6)',
+            'rgba(160, 210, 235, 0.5)',
+            'rgba(120, 180, 215, 0.4)',
+            'rgba(90, 150, 190, 0.3)',
+            'rgba(60, 120, 170, 0.2)'
+        ],
+        bubbleColor: 'rgba(255, 255, 255, 1)',
+        sharkAppearance: { backColor: '#7f8c99', bellyColor: '#ffffff', finColor: '#6c7a89', eyeColor: '#2c3e50' }
+    },
+    sunset: {
+        backgroundGradient: { colors: ['#ff7e5f', '#feb47b', '#3a1c71'] },
+        waveColors: [
+            'rgba(255, 140, 90, 0.5)',
+            'rgba(220, 100, 110, 0.4)',
+            'rgba(150, 70, 130, 0.35)',
+            'rgba(90, 40, 120, 0.3)',
+            'rgba(50, 20, 90, 0.25)'
+        ],
+        bubbleColor: 'rgba(255, 230, 200, 1)',
+        sharkAppearance: { backColor: '#5b3a6b', bellyColor: '#fbe3d3', finColor: '#4a2c5a', eyeColor: '#1f1024' }
+    },
+    night: {
+        backgroundGradient: { colors: ['#0f2027', '#203a43', '#2c5364'] },
+        waveColors: [
+            'rgba(20, 40, 70, 0.6)',
+            'rgba(25, 55, 90, 0.5)',
+            'rgba(30, 70, 110, 0.4)',
+            'rgba(35, 85, 130, 0.3)',
+            'rgba(40, 100, 150, 0.2)'
+        ],
+        bubbleColor: 'rgba(170, 210, 255, 1)',
+        sharkAppearance: { backColor: '#1e2a4a', bellyColor: '#8fa3c7', finColor: '#17203a', eyeColor: '#05070d' }
+    }
+};
+
+// 主题注册表，所有实例共享
+const themeRegistry: Map<string, OceanTheme> = new Map(Object.entries(BUILT_IN_THEMES));
+
+// 鲨鱼调色板缓存上限，超过后清空重建
+const MAX_PALETTE_CACHE_SIZE = 64;
+
+// 鲨鱼精灵缓存上限，超过后清空重建
+const MAX_SPRITE_CACHE_SIZE = 32;
+
+// 鲨鱼精灵在局部坐标中的范围（以鲨鱼大小为单位），覆盖除尾巴外的所有部分
+const SHARK_SPRITE_BOUNDS = { left: -1.15, right: 1.0, top: -0.6, bottom: 0.5 };
+
+// 精灵四周额外留出的像素，容纳描边
+const SHARK_SPRITE_PADDING = 4;
+
+// RGBA 颜色分量，r/g/b 取值 0-255，a 取值 0-1
+interface RGBA {
+    r: number;
+    g: number;
+    b: number;
+    a: number;
+}
+
+// 鲨鱼精灵：预渲染的身体（位于尾巴下方）与鳍和头部（位于尾巴上方）
+interface SharkSprite {
+    under: OceanCanvas;
+    over: OceanCanvas;
+    /** 精灵左上角在鲨鱼局部坐标中的位置与逻辑尺寸 */
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// 由外观派生出的绘制用调色板
+interface SharkPalette {
+    back: string;
+    belly: string;
+    fin: string;
+    finEdge: string;
+    eye: string;
+    /** 背部到腹部之间的过渡色阶 */
+    tones: [string, string, string, string];
+    showGills: boolean;
+    showHighlights: boolean;
+}
+
+// 解析颜色字符串：#rgb、#rgba、#rrggbb、#rrggbbaa、rgb()/rgba() 与 hsl()/hsla() 直接解析，
+// 其余 CSS 颜色（颜色名、hwb() 等）交给 resolveCssColor
+function parseColor(color: string): RGBA {
+    const value = color.trim().toLowerCase();
+    
+    if (value.startsWith('#')) {
+        let hex = value.slice(1);
+        if (hex.length === 3 || hex.length === 4) {
+            hex = hex.split('').map(c => c + c).join('');
+        }
+        if ((hex.length === 6 || hex.length === 8) && /^[0-9a-f]+$/.test(hex)) {
+            const num = parseInt(hex.slice(0, 6), 16);
+            return {
+                r: num >> 16,
+                g: num >> 8 & 0xFF,
+                b: num & 0xFF,
+                a: hex.length === 8 ? parseInt(hex.slice(6), 16) / 255 : 1
+            };
+        }
+    }
+    
+    const match = /^(rgba?|hsla?)\((.*)\)$/.exec(value);
+    if (match) {
+        const tokens = match[2].match(/-?[\d.]+%?/g) || [];
+        const parts = tokens.map(token => parseFloat(token));
+        const a = tokens[3] === undefined ? 1 : tokens[3].endsWith('%') ? parts[3] / 100 : parts[3];
+        
+        if (parts.length >= 3) {
+            if (match[1].startsWith('rgb')) {
+                return { r: parts[0], g: parts[1], b: parts[2], a };
+            }
+            
+            const h = ((parts[0] % 360) + 360) % 360 / 360;
+            const sat = parts[1] / 100;
+            const light = parts[2] / 100;
+            const q = light < 0.5 ? light * (1 + sat) : light + sat - light * sat;
+            const p = 2 * light - q;
+            const hueToRgb = (t: number) => {
+                t = (t + 1) % 1;
+                if (t < 1 / 6) return p + (q - p) * 6 * t;
+                if (t < 1 / 2) return q;
+                if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+                return p;
+            };
+            return {
+                r: hueToRgb(h + 1 / 3) * 255,
+                g: hueToRgb(h) * 255,
+                b: hueToRgb(h - 1 / 3) * 255,
+                a
+            };
+        }
+    }
+    
+    return resolveCssColor(color);
+}
+
+// 解析其余 CSS 颜色时使用的 1×1 画布上下文，首次用到时创建，无法创建时为 null
+let colorContext: OceanRenderingContext | null | undefined;
+
+// 其余 CSS 颜色的解析结果
+const cssColorCache: Map<string, RGBA> = new Map();
+
+// 借助画布解析任意 CSS 颜色：将颜色赋给 fillStyle 并绘制一个像素后读回。
+// 无效颜色或无法创建画布时按 Canvas 的默认填充色黑色处理，并只警告一次
+function resolveCssColor(color: string): RGBA {
+    const cached = cssColorCache.get(color);
+    if (cached) return cached;
+    
+    if (colorContext === undefined) {
+        colorContext = (createOffscreenCanvas(1, 1)?.getContext('2d') as OceanRenderingContext | null | undefined) ?? null;
+    }
+    
+    let rgba: RGBA | null = null;
+    const ctx = colorContext;
+    if (ctx) {
+        // 无效颜色不会改变 fillStyle，用两个不同的初始值区分
+        ctx.fillStyle = '#000000';
+        ctx.fillStyle = color;
+        const first = String(ctx.fillStyle);
+        ctx.fillStyle = '#ffffff';
+        ctx.fillStyle = color;
+        if (String(ctx.fillStyle) === first) {
+            ctx.clearRect(0, 0, 1, 1);
+            ctx.fillRect(0, 0, 1, 1);
+            const [r, g, b, a] = ctx.getImageData(0, 0, 1, 1).data;
+            rgba = { r, g, b, a: a / 255 };
+        }
+    }
+    
+    if (!rgba) {
+        console.warn(`OceanWorld: unsupported color '${color}', using black instead`);
+        rgba = { r: 0, g: 0, b: 0, a: 1 };
+    }
+    cssColorCache.set(color, rgba);
+    return rgba;
+}
+
+// 将 RGBA 分量格式化为 rgba() 字符串
+function formatColor(color: RGBA): string {
+    const clamp = (v: number) => Math.round(Math.max(0, Math.min(255, v)));
+    const alpha = Math.round(Math.max(0, Math.min(1, color.a)) * 1000) / 1000;
+    return `rgba(${clamp(color.r)}, ${clamp(color.g)}, ${clamp(color.b)}, ${alpha})`;
+}
+
+// 按比例 t（0-1）混合两种颜色
+function mixColors(from: string, to: string, t: number): string {
+    const a = parseColor(from);
+    const b = parseColor(to);
+    return formatColor({
+        r: a.r + (b.r - a.r) * t,
+        g: a.g + (b.g - a.g) * t,
+        b: a.b + (b.b - a.b) * t,
+        a: a.a + (b.a - a.a) * t
+    });
+}
+
+// 变亮颜色：各通道增加 percent% 的亮度
+function lightenColor(color: string, percent: number): string {
+    const rgba = parseColor(color);
+    const amt = Math.round(2.55 * percent);
+    return formatColor({ r: rgba.r + amt, g: rgba.g + amt, b: rgba.b + amt, a: rgba.a });
+}
+
+// 补全渐变位置：未指定的位置按颜色数量均匀分布
+function resolveGradientStops(colors: string[], stops?: number[]): number[] {
+    return colors.map((_, index) =>
+        stops && stops[index] !== undefined ? stops[index] : index / Math.max(colors.length - 1, 1)
+    );
+}
+
+// 采样渐变在位置 t（0-1）处的颜色
+function sampleGradient(colors: string[], stops: number[], t: number): string {
+    if (t <= stops[0]) return colors[0];
+    for (let i = 1; i < colors.length; i++) {
+        if (t <= stops[i]) {
+            const span = stops[i] - stops[i - 1];
+            return mixColors(colors[i - 1], colors[i], span > 0 ? (t - stops[i - 1]) / span : 1);
+        }
+    }
+    return colors[colors.length - 1];
+}
+
+// 获取已注册的主题
+function getTheme(name: string): OceanTheme {
+    const theme = themeRegistry.get(name);
+    if (!theme) {
+        throw new Error(`Theme '${name}' is not registered`);
+    }
+    return theme;
+}
+
+// 主题背景渐变的位置：未指定时三种颜色使用 [0, waterLevel, 1]，否则均匀分布
+function resolveThemeStops(theme: OceanTheme, waterLevel: number): number[] {
+    const { colors, stops } = theme.backgroundGradient;
+    if (stops) return resolveGradientStops(colors, stops);
+    return colors.length === 3 ? [0, waterLevel, 1] : resolveGradientStops(colors);
+}
+
+// 平滑缓动
+function smoothstep(t: number): number {
+    return t * t * (3 - 2 * t);
+}
+
+// 将角度归一化到 (-π, π]
+function normalizeAngle(angle: number): number {
+    return angle - Math.ceil((angle - Math.PI) / (Math.PI * 2)) * Math.PI * 2;
+}
+
+// 判断点是否在多边形内（射线法）
+function isPointInPolygon(polygon: readonly Point[], point: Point): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i];
+        const b = polygon[j];
+        if ((a.y > point.y) !== (b.y > point.y) &&
+            point.x < (b.x - a.x) * (point.y - a.y) / (b.y - a.y) + a.x) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
+
+// 将点投影到多边形边界上，法向量方向由多边形的环绕方向决定
+function projectOntoPolygon(polygon: readonly Point[], point: Point): PolygonProjection {
+    let area = 0;
+    let best: PolygonProjection = { x: polygon[0].x, y: polygon[0].y, normalX: 0, normalY: -1 };
+    let bestDistance = Infinity;
+    
+    for (let i = 0; i < polygon.length; i++) {
+        const a = polygon[i];
+        const b = polygon[(i + 1) % polygon.length];
+        area += a.x * b.y - b.x * a.y;
+        
+        const dx = b.x - a.x;
+        const dy = b.y - a.y;
+        const lengthSquared = dx * dx + dy * dy;
+        const t = lengthSquared > 0
+            ? Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared))
+            : 0;
+        const x = a.x + dx * t;
+        const y = a.y + dy * t;
+        const distance = Math.hypot(point.x - x, point.y - y);
+        if (distance < bestDistance) {
+            const length = Math.sqrt(lengthSquared) || 1;
+            bestDistance = distance;
+            best = { x, y, normalX: dy / length, normalY: -dx / length };
+        }
+    }
+    
+    // 画布坐标系中 y 轴向下，面积为正时 (dy, -dx) 指向外侧
+    if (area < 0) {
+        best.normalX = -best.normalX;
+        best.normalY = -best.normalY;
+    }
+    return best;
+}
+
+// 读取行为私有状态中的数值，不存在时返回默认值
+function readNumber(memory: Record<string, unknown>, key: string, fallback: number): number {
+    const value = memory[key];
+    return typeof value === 'number' ? value : fallback;
+}
+
+// 根据鲨鱼外观生成调色板，渐变色阶由背部颜色向腹部颜色过渡
+// 外观颜色在这里统一规范化为 rgba()，之后的混合与雾化不再需要解析颜色名等格式
+function createSharkPalette(appearance: SharkAppearance): SharkPalette {
+    const backColor = formatColor(parseColor(appearance.backColor));
+    const bellyColor = formatColor(parseColor(appearance.bellyColor));
+    const finColor = formatColor(parseColor(appearance.finColor));
+    return {
+        back: backColor,
+        belly: bellyColor,
+        fin: finColor,
+        finEdge: lightenColor(finColor, 20),
+        eye: formatColor(parseColor(appearance.eyeColor)),
+        tones: [
+            mixColors(backColor, bellyColor, 0.2),
+            mixColors(backColor, bellyColor, 0.45),
+            mixColors(backColor, bellyColor, 0.7),
+            mixColors(backColor, bellyColor, 0.85)
+        ],
+        showGills: appearance.showGills,
+        showHighlights: appearance.showHighlights
+    };
+}
+
+// 调色板整体向雾色混合 amount（0-1），用于远处的鲨鱼
+function fogSharkPalette(palette: SharkPalette, fogColor: string, amount: number): SharkPalette {
+    if (amount <= 0) return palette;
+    
+    const fog = (color: string) => mixColors(color, fogColor, amount);
+    return {
+        ...palette,
+        back: fog(palette.back),
+        belly: fog(palette.belly),
+        fin: fog(palette.fin),
+        finEdge: fog(palette.finEdge),
+        eye: fog(palette.eye),
+        tones: [fog(palette.tones[0]), fog(palette.tones[1]), fog(palette.tones[2]), fog(palette.tones[3])]
+    };
+}
+
+// 判断点是否在三角形内
+function isPointInTriangle(px: number, py: number, a: Point, b: Point, c: Point): boolean {
+    const cross = (p1: Point, p2: Point) => (px - p2.x) * (p1.y - p2.y) - (p1.x - p2.x) * (py - p2.y);
+    const d1 = cross(a, b);
+    const d2 = cross(b, c);
+    const d3 = cross(c, a);
+    const hasNegative = d1 < 0 || d2 < 0 || d3 < 0;
+    const hasPositive = d1 > 0 || d2 > 0 || d3 > 0;
+    return !(hasNegative && hasPositive);
+}
+
+// 逻辑世界尺寸：模拟状态均使用与设备像素比无关的 CSS 像素坐标
+interface WorldSize {
+    width: number;
+    height: number;
+}
+
+// 主题过渡中用于插值的颜色状态
+interface ThemeColors {
+    backgroundColors: string[];
+    waveColors: string[];
+    bubbleColor: string;
+    shark: Pick<SharkAppearance, 'backColor' | 'bellyColor' | 'finColor' | 'eyeColor'>;
+}
+
+// 正在进行的主题过渡
+interface ThemeTransition {
+    theme: OceanTheme;
+    backgroundStops: number[];
+    from: ThemeColors;
+    to: ThemeColors;
+    elapsed: number;
+    duration: number;
+}
+
+// 可用于渲染的画布类型：页面中的 canvas 元素或 OffscreenCanvas（可在 Worker 中使用）
+type OceanCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+// 与画布类型对应的 2D 渲染上下文
+type OceanRenderingContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// 判断是否为页面中的 canvas 元素（Worker 中不存在 HTMLCanvasElement）
+function isHTMLCanvas(canvas: OceanCanvas): canvas is HTMLCanvasElement {
+    return typeof HTMLCanvasElement !== 'undefined' && canvas instanceof HTMLCanvasElement;
+}
+
+// 判断 canvas 元素的布局尺寸是否由 CSS 指定：没有内联尺寸且布局尺寸等于位图尺寸时，布局尺寸跟随位图尺寸
+function hasCssSize(canvas: HTMLCanvasElement): boolean {
+    if (canvas.style.width || canvas.style.height) return true;
+    return canvas.offsetWidth !== canvas.width || canvas.offsetHeight !== canvas.height;
+}
+
+// 创建离屏画布：优先使用 OffscreenCanvas，其次是 canvas 元素，都不支持时返回 null
+function createOffscreenCanvas(width: number, height: number): OceanCanvas | null {
+    if (typeof OffscreenCanvas !== 'undefined') {
+        return new OffscreenCanvas(Math.max(1, width), Math.max(1, height));
+    }
+    if (typeof document !== 'undefined') {
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, width);
+        canvas.height = Math.max(1, height);
+        return canvas;
+    }
+    return null;
+}
+
+// 解析构造参数中的画布：支持 canvas id、canvas 元素和 OffscreenCanvas
+function resolveCanvas(canvas: string | OceanCanvas): OceanCanvas {
+    if (typeof canvas !== 'string') {
+        return canvas;
+    }
+    
+    const element = typeof document !== 'undefined' ? document.getElementById(canvas) : null;
+    if (!element || !(element instanceof HTMLCanvasElement)) {
+        throw new Error(`Canvas element with id '${canvas}' not found`);
+    }
+    return element;
+}
+
+class OceanWorld {
+    private canvas: OceanCanvas;
+    private context: OceanRenderingContext | null;
+    private config: Required<OceanWorldOptions>;
+    private sharks: Shark[] = [];
+    private fishSchools: FishSchool[] = [];
+    private fish: Fish[] = [];
+    private fishEaten: number = 0;
+    private fishBorn: number = 0;
+    private waves: Wave[] = [];
+    private particles: ParticlePool;
+    private seabed: SeabedLayout | null = null;
+    private parallaxX: number = 0;
+    private mouseX: number = 0;
+    private mouseY: number = 0;
+    private lastPointer: Point | null = null;
+    private pointerVelocity: Point = { x: 0, y: 0 };
+    private behaviors: Map<string, SharkBehavior> = new Map();
+    private animationId: number | null = null;
+    private running: boolean = false;
+    private documentVisible: boolean = true;
+    private inViewport: boolean = true;
+    private hostVisible: boolean = true;
+    private visible: boolean = true;
+    private prefersReducedMotion: boolean = false;
+    private intersectionObserver: IntersectionObserver | null = null;
+    private reducedMotionQuery: MediaQueryList | null = null;
+    private waterSurfaceY: number = 0;
+    private size: WorldSize = { width: 0, height: 0 };
+    private pixelRatio: number = 1;
+    private isMouseInCanvas: boolean = false;
+    private lastFrameTime: number | null = null;
+    private simulationTime: number = 0;
+    private timeScale: number = 1;
+    private paused: boolean = false;
+    private random: SeededRandom;
+    private resizeObserver: ResizeObserver | null = null;
+    // 画布没有 CSS 尺寸时需要将样式尺寸固定为逻辑尺寸，构造时记录一次
+    private pinStyleSize: boolean = false;
+    private pointerEventsBound: boolean = false;
+    private destroyed: boolean = false;
+    private paletteCache: Map<string, SharkPalette> = new Map();
+    private bubbleRGBA: { color: string; rgba: RGBA } | null = null;
+    private seabedColors: SeabedColors | null = null;
+    private fishFills: { key: string; fills: string[] } | null = null;
+    private spriteCache: WeakMap<SharkPalette, Map<string, SharkSprite>> = new WeakMap();
+    private spriteCount: number = 0;
+    private nextSharkId: number = 1;
+    private listeners: OceanWorldListenerMap = new Map();
+    private layers: LayerEntry[] = [];
+    private nextLayerOrder: number = 0;
+    private selectedSharkId: number | null = null;
+    private themeTransition: ThemeTransition | null = null;
+    private frameElapsed: number = 0;
+    private frameTime: number = 0;
+    private frameInterval: number = 1 / BASE_FPS;
+    private devicePixelRatio: number = 1;
+    private qualityLevel: number = 0;
+    private waveSampleStep: number = QUALITY_LEVELS[0].waveSampleStep;
+    private qualitySample = { elapsed: 0, frames: 0, total: 0, headroom: 0 };
+    private seaState: number = 1;
+    private surface: WaterSurface;
+    private readonly onResize = () => this.initCanvasSize();
+    private readonly onVisibilityChange = () => {
+        this.documentVisible = !document.hidden;
+        this.updateVisibility();
+    };
+    private readonly onIntersection = (entries: IntersectionObserverEntry[]) => {
+        const entry = entries[entries.length - 1];
+        if (!entry) return;
+        this.inViewport = entry.isIntersecting;
+        this.updateVisibility();
+    };
+    private readonly onReducedMotionChange = (e: MediaQueryListEvent) => this.setPrefersReducedMotion(e.matches);
+    private readonly onClick = (e: MouseEvent) => {
+        if (!isHTMLCanvas(this.canvas)) return;
+        const rect = this.canvas.getBoundingClientRect();
+        this.tap(e.clientX - rect.left, e.clientY - rect.top);
+    };
+    private readonly onMouseMove = (e: MouseEvent) => this.trackPointer(e.clientX, e.clientY);
+    private readonly onTouchMove = (e: TouchEvent) => {
+        e.preventDefault();
+        const touch = e.touches[0];
+        if (touch) {
+            this.trackPointer(touch.clientX, touch.clientY);
+        }
+    };
+
+    constructor(canvas: string | OceanCanvas, options: OceanWorldOptions = {}) {
+        this.canvas = resolveCanvas(canvas);
+        const context = this.canvas.getContext('2d') as OceanRenderingContext | null;
+        if (!context) {
+            throw new Error('Could not get 2D context from canvas');
+        }
+        
+        this.context = context;
+        this.pinStyleSize = isHTMLCanvas(this.canvas) && !hasCssSize(this.canvas);
+        
+        // 初始主题提供视觉配置的默认值
+        const theme = getTheme(options.theme || 'classic');
+        const waterLevel = options.waterLevel || 0.2;
+        
+        // 默认配置：先展开 options 再补全默认值，显式传入 undefined 的选项同样使用默认值
+        this.config = {
+            ...options,
+            sharkCount: options.sharkCount || 1,
+            sharkSize: options.sharkSize || 40,
+            sharkSpeed: options.sharkSpeed || 3,
+            waveCount: options.waveCount || 3,
+            bubbleCount: options.bubbleCount || 30,
+            enableBubbles: options.enableBubbles !== false,
+            waterLevel,
+            autoMoveInterval: options.autoMoveInterval || 3000,
+            enableBackground: options.enableBackground !== false,
+            enableMouseFollow: options.enableMouseFollow !== false,
+            backgroundGradient: {
+                colors: options.backgroundGradient?.colors || [...theme.backgroundGradient.colors],
+                stops: options.backgroundGradient?.stops || resolveThemeStops(theme, waterLevel)
+            },
+            waveColors: options.waveColors || [...theme.waveColors],
+            seed: options.seed ?? SeededRandom.randomSeed(),
+            maxPixelRatio: options.maxPixelRatio || 2,
+            sharkVariants: options.sharkVariants || [],
+            enableInteraction: options.enableInteraction !== false,
+            selectionColor: options.selectionColor || 'rgba(255, 255, 255, 0.9)',
+            bubbleColor: options.bubbleColor || theme.bubbleColor,
+            theme: options.theme || 'classic',
+            waves: options.waves || [],
+            seaState: options.seaState ?? 1,
+            enableRipples: options.enableRipples !== false,
+            enableSeabed: options.enableSeabed ?? false,
+            spriteCache: options.spriteCache !== false,
+            pauseWhenHidden: options.pauseWhenHidden !== false,
+            adaptiveQuality: {
+                ...DEFAULT_ADAPTIVE_QUALITY_OPTIONS,
+                enabled: options.seed === undefined,
+                ...options.adaptiveQuality
+            },
+            reducedMotion: { ...DEFAULT_REDUCED_MOTION_OPTIONS, ...options.reducedMotion },
+            steering: { ...DEFAULT_STEERING_OPTIONS, ...options.steering },
+            behavior: { ...DEFAULT_BEHAVIOR_OPTIONS, ...options.behavior },
+            swimZones: { ...DEFAULT_SWIM_ZONE_OPTIONS, ...options.swimZones },
+            fish: { ...DEFAULT_FISH_OPTIONS, ...options.fish },
+            ecosystem: { ...DEFAULT_ECOSYSTEM_OPTIONS, ...options.ecosystem },
+            ripples: { ...DEFAULT_RIPPLE_OPTIONS, ...options.ripples },
+            bubbles: { ...DEFAULT_BUBBLE_OPTIONS, ...options.bubbles },
+            seabed: { ...DEFAULT_SEABED_OPTIONS, ...options.seabed },
+            depth: { ...DEFAULT_DEPTH_OPTIONS, ...options.depth },
+            sharkAppearance: {
+                ...DEFAULT_SHARK_APPEARANCE,
+                ...theme.sharkAppearance,
+                ...options.sharkAppearance
+            }
+        };
+        
+        // 初始化随机数生成器
+        this.random = new SeededRandom(this.config.seed);
+        this.seaState = this.config.seaState;
+        this.surface = new WaterSurface(this.getRippleOptions());
+        this.particles = new ParticlePool(this.getBubbleOptions().maxParticles);
+        this.createBuiltInLayers();
+        this.createBuiltInBehaviors();
+        
+        // 绑定事件
+        this.bindEvents();
+        
+        // 初始化
+        this.init();
+    }
+    
+    // 2D 上下文，销毁时释放，之后不再绘制
+    private get ctx(): OceanRenderingContext {
+        if (!this.context) {
+            throw new Error('OceanWorld has been destroyed');
+        }
+        return this.context;
+    }
+    
+    // 初始化画布尺寸
+    private initCanvasSize(): void {
+        if (isHTMLCanvas(this.canvas)) {
+            const devicePixelRatio = typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1;
+            this.applySize(this.canvas.offsetWidth, this.canvas.offsetHeight, devicePixelRatio);
+        } else if (this.size.width === 0 && this.size.height === 0) {
+            // OffscreenCanvas 首次初始化时以当前位图尺寸作为逻辑尺寸
+            this.applySize(this.canvas.width, this.canvas.height, 1);
+        } else {
+            this.applySize(this.size.width, this.size.height, this.devicePixelRatio);
+        }
+    }
+    
+    // 应用逻辑尺寸与像素比，并按比例缩放已有的模拟状态，保持场景的相对布局
+    // 实际像素比受 maxPixelRatio 限制，并按当前画质等级缩放
+    private applySize(width: number, height: number, devicePixelRatio: number): void {
+        const maxPixelRatio = Math.min(devicePixelRatio, this.config.maxPixelRatio);
+        const pixelRatio = Math.max(maxPixelRatio * this.getQualitySettings().pixelRatioScale, 0.1);
+        this.devicePixelRatio = devicePixelRatio;
+        const oldWidth = this.size.width;
+        const oldHeight = this.size.height;
+        const oldPixelRatio = this.pixelRatio;
+        
+        this.size.width = width;
+        this.size.height = height;
+        this.pixelRatio = pixelRatio;
+        this.canvas.width = Math.round(width * pixelRatio);
+        this.canvas.height = Math.round(height * pixelRatio);
+        // 画布没有 CSS 尺寸时布局尺寸跟随位图尺寸，像素比大于 1 时每次调整都会变大并再次触发 ResizeObserver，
+        // 因此将样式尺寸固定为逻辑尺寸；用户通过 CSS 指定的尺寸不做修改
+        if (this.pinStyleSize && isHTMLCanvas(this.canvas) &&
+            (this.canvas.offsetWidth !== width || this.canvas.offsetHeight !== height)) {
+            this.canvas.style.width = `${width}px`;
+            this.canvas.style.height = `${height}px`;
+        }
+        this.waterSurfaceY = height * this.config.waterLevel;
+        
+        if (oldWidth !== width) {
+            this.surface.resize(width);
+        }
+        
+        if (oldWidth > 0 && oldHeight > 0 && (oldWidth !== width || oldHeight !== height)) {
+            this.rescaleWorld(width / oldWidth, height / oldHeight);
+        }
+        
+        if (oldWidth !== width || oldHeight !== height || oldPixelRatio !== pixelRatio) {
+            this.emit('resize', { width, height, pixelRatio });
+        }
+        
+        // 修改画布尺寸会清空画面，静态模式下需要重绘
+        this.invalidate();
+    }
+    
+    // 按比例缩放鲨鱼、气泡、海浪和指针位置
+    private rescaleWorld(scaleX: number, scaleY: number): void {
+        this.sharks.forEach(shark => {
+            shark.x *= scaleX;
+            shark.y *= scaleY;
+            shark.targetX *= scaleX;
+            shark.targetY *= scaleY;
+        });
+        this.fish.forEach(fish => {
+            fish.x *= scaleX;
+            fish.y *= scaleY;
+        });
+        this.particles.forEach(particle => particle.rescale(scaleX, scaleY));
+        this.layoutWaves();
+        this.mouseX *= scaleX;
+        this.mouseY *= scaleY;
+        this.lastPointer = null;
+    }
+    
+    // 绑定事件
+    private bindEvents(): void {
+        this.bindVisibilityEvents();
+        
+        // OffscreenCanvas 没有 DOM 事件，尺寸与指针位置需通过 resize / setPointer 转发
+        if (!isHTMLCanvas(this.canvas)) return;
+        
+        // 优先跟踪画布自身尺寸（适配可调整大小的容器），不支持 ResizeObserver 时退回到窗口 resize
+        if (typeof ResizeObserver !== 'undefined') {
+            this.resizeObserver = new ResizeObserver(this.onResize);
+            this.resizeObserver.observe(this.canvas);
+        } else {
+            window.addEventListener('resize', this.onResize);
+        }
+        
+        // 点击/轻触交互
+        this.canvas.addEventListener('click', this.onClick);
+        
+        // 只有在启用鼠标跟随时才绑定鼠标/触摸事件
+        if (this.config.enableMouseFollow) {
+            this.bindPointerEvents();
+        }
+    }
+    
+    // 跟踪页面可见性、画布是否在视口内以及系统的减弱动态效果设置
+    // Worker 中没有这些 API，由主线程通过 setVisible / setPrefersReducedMotion 转发
+    private bindVisibilityEvents(): void {
+        if (typeof document !== 'undefined') {
+            this.documentVisible = !document.hidden;
+            document.addEventListener('visibilitychange', this.onVisibilityChange);
+        }
+        
+        if (isHTMLCanvas(this.canvas) && typeof IntersectionObserver !== 'undefined') {
+            this.intersectionObserver = new IntersectionObserver(this.onIntersection);
+            this.intersectionObserver.observe(this.canvas);
+        }
+        
+        if (typeof matchMedia !== 'undefined') {
+            this.reducedMotionQuery = matchMedia('(prefers-reduced-motion: reduce)');
+            this.prefersReducedMotion = this.reducedMotionQuery.matches;
+            this.reducedMotionQuery.addEventListener('change', this.onReducedMotionChange);
+        }
+        
+        this.visible = this.isVisible();
+    }
+    
+    // 绑定鼠标/触摸事件
+    private bindPointerEvents(): void {
+        if (!isHTMLCanvas(this.canvas) || this.pointerEventsBound || this.destroyed) return;
+        this.pointerEventsBound = true;
+        
+        const hasTouch = 'ontouchstart' in window || 
+                        navigator.maxTouchPoints > 0;
+        
+        if (hasTouch) {
+            document.addEventListener('touchmove', this.onTouchMove);
+        } else {
+            document.addEventListener('mousemove', this.onMouseMove);
+        }
+    }
+    
+    // 解绑鼠标/触摸事件
+    private unbindPointerEvents(): void {
+        if (!this.pointerEventsBound) return;
+        this.pointerEventsBound = false;
+        
+        document.removeEventListener('touchmove', this.onTouchMove);
+        document.removeEventListener('mousemove', this.onMouseMove);
+    }
+    
+    // 解绑所有事件
+    private unbindEvents(): void {
+        this.unbindPointerEvents();
+        
+        if (isHTMLCanvas(this.canvas)) {
+            this.canvas.removeEventListener('click', this.onClick);
+        }
+        
+        if (this.resizeObserver) {
+            this.resizeObserver.disconnect();
+            this.resizeObserver = null;
+        } else if (typeof window !== 'undefined') {
+            window.removeEventListener('resize', this.onResize);
+        }
+        
+        if (typeof document !== 'undefined') {
+            document.removeEventListener('visibilitychange', this.onVisibilityChange);
+        }
+        this.intersectionObserver?.disconnect();
+        this.intersectionObserver = null;
+        this.reducedMotionQuery?.removeEventListener('change', this.onReducedMotionChange);
+        this.reducedMotionQuery = null;
+    }
+    
+    // 画布当前是否可见：页面未隐藏、画布在视口内且未被外部标记为不可见
+    private isVisible(): boolean {
+        return this.documentVisible && this.inViewport && this.hostVisible;
+    }
+    
+    // 可见性变化时暂停或恢复动画循环
+    private updateVisibility(): void {
+        const visible = this.isVisible();
+        if (visible === this.visible) return;
+        this.visible = visible;
+        
+        if (visible) {
+            this.resumeFrames();
+        } else if (this.config.pauseWhenHidden) {
+            this.cancelFrame();
+        }
+        this.emit('visibilityChanged', { visible });
+    }
+    
+    // 告知画布是否可见，用于 Worker 等无法自动检测可见性的环境
+    setVisible(visible: boolean): void {
+        this.hostVisible = visible;
+        this.updateVisibility();
+    }
+    
+    // 告知系统是否要求减弱动态效果，用于 Worker 等无法读取媒体查询的环境
+    setPrefersReducedMotion(prefers: boolean): void {
+        this.prefersReducedMotion = prefers;
+        this.resumeFrames();
+    }
+    
+    // 获取补全默认值后的减弱动态效果配置
+    private getReducedMotionOptions(): Required<ReducedMotionOptions> {
+        return { ...DEFAULT_REDUCED_MOTION_OPTIONS, ...this.config.reducedMotion };
+    }
+    
+    // 当前是否处于减弱动态效果模式
+    isReducedMotion(): boolean {
+        const { enabled } = this.getReducedMotionOptions();
+        return enabled === 'auto' ? this.prefersReducedMotion : enabled;
+    }
+    
+    // 是否只绘制静止画面
+    private isStaticMotion(): boolean {
+        return this.isReducedMotion() && this.getReducedMotionOptions().mode === 'static';
+    }
+    
+    // 动画速度比例：calm 模式下放慢
+    private getMotionSpeed(): number {
+        if (!this.isReducedMotion()) return 1;
+        return Math.max(0, Math.min(1, this.getReducedMotionOptions().speed));
+    }
+    
+    // 根据页面坐标判断指针是否在画布内并更新指针位置
+    private trackPointer(clientX: number, clientY: number): void {
+        if (!isHTMLCanvas(this.canvas)) return;
+        
+        const rect = this.canvas.getBoundingClientRect();
+        const isInside = clientX >= rect.left && clientX <= rect.right &&
+            clientY >= rect.top && clientY <= rect.bottom;
+            
+        if (isInside) {
+            this.setPointer(clientX - rect.left, clientY - rect.top);
+        } else {
+            this.clearPointer();
+        }
+    }
+    
+    // 设置指针位置（画布坐标），用于 OffscreenCanvas / Worker 模式下转发指针事件
+    setPointer(x: number, y: number): void {
+        const entered = !this.isMouseInCanvas;
+        this.isMouseInCanvas = true;
+        this.handlePointerMove(x, y);
+        
+        if (entered) {
+            this.emit('pointerEnter', { x, y });
+        }
+    }
+    
+    // 清除指针位置，等同于指针离开画布
+    clearPointer(): void {
+        if (!this.isMouseInCanvas) return;
+        this.isMouseInCanvas = false;
+        this.lastPointer = null;
+        this.emit('pointerLeave', { x: this.mouseX, y: this.mouseY });
+    }
+    
+    // 获取指定位置（画布坐标）下最上层的实体：先检测鲨鱼，再检测气泡
+    getEntityAt(x: number, y: number): OceanEntity | null {
+        return this.createEntity(this.findEntityAt(x, y));
+    }
+    
+    // 在指定位置（画布坐标）点击：戳破气泡或选中鲨鱼，点击空白处取消选中
+    tap(x: number, y: number): OceanEntity | null {
+        if (!this.config.enableInteraction || this.destroyed) return null;
+        
+        const hit = this.findEntityAt(x, y);
+        // 在戳破气泡之前生成快照
+        const entity = this.createEntity(hit);
+        if (hit?.type === 'shark') {
+            this.selectShark(hit.shark.id);
+        } else if (hit?.type === 'bubble') {
+            this.popBubble(hit.bubble);
+        } else {
+            this.selectShark(null);
+            
+            // 点击水面上方时落下一滴水，入水后激起涟漪；点击水下时喷出一团气泡
+            if (y < this.waterSurfaceY) {
+                if (this.config.enableRipples) {
+                    this.particles.acquire()?.spawnDroplet(x, y, 0, 0, 3, true);
+                }
+            } else {
+                this.emitPointerBurst(x, y);
+            }
+        }
+        
+        this.emit('tap', { x, y, entity });
+        return entity;
+    }
+    
+    // 选中鲨鱼（传入 null 取消选中），返回是否成功
+    selectShark(id: number | null): boolean {
+        if (id !== null && !this.findShark(id)) return false;
+        if (id === this.selectedSharkId) return true;
+        
+        const previous = this.selectedSharkId;
+        this.selectedSharkId = id;
+        
+        if (previous !== null) {
+            this.emit('sharkDeselected', { id: previous });
+        }
+        
+        const shark = id !== null ? this.findShark(id) : undefined;
+        if (shark) {
+            this.emit('sharkSelected', { shark: this.createSharkSnapshot(shark) });
+        }
+        return true;
+    }
+    
+    // 获取当前选中的鲨鱼
+    getSelectedShark(): SharkSnapshot | null {
+        const shark = this.selectedSharkId !== null ? this.findShark(this.selectedSharkId) : undefined;
+        return shark ? this.createSharkSnapshot(shark) : null;
+    }
+    
+    // 鲨鱼的绘制变换：按视差平移，按俯仰角旋转，再按朝向、深度和侧倾缩放
+    private getSharkTransform(shark: Shark): SharkTransform {
+        const projection = this.getDepthProjection(shark.z);
+        const facing = Math.abs(shark.facing) >= MIN_FACING_SCALE
+            ? shark.facing
+            : (shark.direction === 'left' ? -MIN_FACING_SCALE : MIN_FACING_SCALE);
+        return {
+            x: shark.x + projection.offsetX,
+            y: shark.y,
+            rotation: shark.pitch * Math.sign(facing),
+            scaleX: facing * projection.scale,
+            scaleY: projection.scale * (1 - Math.abs(shark.bank) * BANK_SQUASH)
+        };
+    }
+    
+    // 将画布坐标转换到鲨鱼的局部坐标系（与 drawSharks 中的变换一致）
+    private toSharkLocal(shark: Shark, x: number, y: number): Point {
+        const transform = this.getSharkTransform(shark);
+        const dx = x - transform.x;
+        const dy = y - transform.y;
+        const cos = Math.cos(transform.rotation);
+        const sin = Math.sin(transform.rotation);
+        return {
+            x: (dx * cos + dy * sin) / transform.scaleX,
+            y: (dy * cos - dx * sin) / transform.scaleY
+        };
+    }
+    
+    // 检测点是否落在鲨鱼身体、尾巴或背鳍上
+    private hitTestShark(shark: Shark, x: number, y: number): boolean {
+        const local = this.toSharkLocal(shark, x, y);
+        const size = shark.size;
+        
+        // 身体近似为椭圆
+        const bodyX = (local.x + size * 0.05) / (size * 0.95);
+        const bodyY = (local.y + size * 0.03) / (size * 0.32);
+        if (bodyX * bodyX + bodyY * bodyY <= 1) return true;
+        
+        // 尾鳍上下两叶
+        const tailSwing = shark.tailAngle * 6;
+        const tailBase = { x: -size * 0.9, y: 0 };
+        if (isPointInTriangle(local.x, local.y, tailBase,
+            { x: -size * 1.5, y: -size * 0.4 + tailSwing }, { x: -size * 1.2, y: -size * 0.05 })) return true;
+        if (isPointInTriangle(local.x, local.y, tailBase,
+            { x: -size * 1.5, y: size * 0.3 + tailSwing }, { x: -size * 1.2, y: size * 0.05 })) return true;
+        
+        // 背鳍
+        return isPointInTriangle(local.x, local.y,
+            { x: -size * 0.1, y: -size * 0.3 }, { x: -size * 0.3, y: -size * 0.5 }, { x: -size * 0.5, y: -size * 0.25 });
+    }
+    
+    // 查找指定位置的实体：鲨鱼由近及远检测，深度相同时后绘制的鲨鱼优先，其次是气泡
+    private findEntityAt(x: number, y: number): EntityHit | null {
+        const sharks = [...this.sharks].reverse().sort((a, b) => a.z - b.z);
+        const shark = sharks.find(candidate => this.hitTestShark(candidate, x, y));
+        if (shark) {
+            return { type: 'shark', shark };
+        }
+        
+        const bubble = this.findBubbleAt(x, y);
+        return bubble ? { type: 'bubble', bubble } : null;
+    }
+    
+    // 将命中测试结果转换为对外的只读快照
+    private createEntity(hit: EntityHit | null): OceanEntity | null {
+        if (!hit) return null;
+        return hit.type === 'shark'
+            ? { type: 'shark', shark: this.createSharkSnapshot(hit.shark) }
+            : { type: 'bubble', bubble: hit.bubble.getSnapshot() };
+    }
+    
+    // 查找指定位置最上层的气泡
+    private findBubbleAt(x: number, y: number): Particle | undefined {
+        if (!this.config.enableBubbles) return undefined;
+        
+        return this.particles.findLast(particle =>
+            particle.kind === 'bubble' &&
+            particle.contains(x, y, BUBBLE_HIT_TOLERANCE, this.getDepthProjection(particle.z)));
+    }
+    
+    // 戳破气泡：播放破裂动画并回收气泡
+    private popBubble(bubble: Particle): void {
+        const snapshot = bubble.getSnapshot();
+        this.particles.acquire()?.spawnPop(snapshot.x, snapshot.y, snapshot.z, snapshot.size, snapshot.opacity, BUBBLE_POP_DURATION);
+        this.recycleBubble(bubble);
+        this.emit('bubblePopped', { bubble: snapshot });
+    }
+    
+    // 调整画布逻辑尺寸（CSS 像素）与像素比，OffscreenCanvas 无法自动获取布局尺寸时使用
+    resize(width: number, height: number, pixelRatio: number = 1): void {
+        this.applySize(width, height, pixelRatio);
+    }
+    
+    // 获取画布逻辑尺寸与实际使用的像素比
+    getSize(): { width: number; height: number; pixelRatio: number } {
+        return { width: this.size.width, height: this.size.height, pixelRatio: this.pixelRatio };
+    }
+
+    // 处理指针移动
+    private handlePointerMove(x: number, y: number): void {
+        if (this.isMouseInCanvas) {
+            this.stirSurface(this.mouseX, this.mouseY, x, y);
+        }
+        
+        this.mouseX = x;
+        this.mouseY = y;
+    }
+    
+    // 初始化海洋世界
+    private init(): void {
+        this.initCanvasSize();
+        this.mouseX = this.size.width / 2;
+        this.mouseY = this.size.height / 2;
+        this.createWaves();
+        this.createSeabed();
+        this.createSharks();
+        this.createFish();
+        if (this.config.enableBubbles) {
+            this.createBubbles();
+        }
+        this.start();
+    }
+    
+    // 创建海浪：优先使用显式的海浪层配置，否则按 waveCount 和层序号生成
+    private createWaves(): void {
+        const layers: WaveLayerOptions[] = this.config.waves.length > 0
+            ? this.config.waves
+            : Array.from({ length: this.config.waveCount }, () => ({}));
+        
+        this.waves = layers.map((layer, index) => this.createWave(layer, index));
+    }
+    
+    // 根据海浪层配置创建海浪，未指定的参数沿用按层序号递增的默认值
+    private createWave(layer: WaveLayerOptions, index: number): Wave {
+        const defaultWavenumber = 0.01 + index * 0.005;
+        const wavelength = layer.wavelength ?? Math.PI * 2 / defaultWavenumber;
+        const speed = layer.speed ?? (0.02 + index * 0.01) * BASE_FPS / defaultWavenumber;
+        const components = layer.components && layer.components.length > 0
+            ? layer.components
+            : [{ amplitude: layer.amplitude ?? 10 + index * 5, wavelength }];
+        const offset = layer.offset ?? index * 15;
+        
+        return {
+            y: this.waterSurfaceY + offset,
+            offset,
+            color: layer.color ?? this.config.waveColors[index % this.config.waveColors.length],
+            hasCustomColor: layer.color !== undefined,
+            opacity: layer.opacity ?? 1,
+            shape: layer.shape ?? 'sine',
+            steepness: Math.max(0, Math.min(1, layer.steepness ?? 0.5)),
+            direction: layer.direction ?? -1,
+            components: components.map(component => ({
+                amplitude: component.amplitude,
+                wavenumber: Math.PI * 2 / Math.max(component.wavelength, 1),
+                speed: component.speed ?? speed,
+                phase: component.phase ?? 0
+            })),
+            time: 0
+        };
+    }
+    
+    // 尺寸或水位变化时重新定位海浪，保留海浪相位
+    private layoutWaves(): void {
+        this.waves.forEach(wave => {
+            wave.y = this.waterSurfaceY + wave.offset;
+        });
+    }
+    
+    // 设置海浪层并重建海浪
+    setWaveLayers(layers: WaveLayerOptions[]): void {
+        this.config.waves = layers.map(layer => ({ ...layer }));
+        this.createWaves();
+        this.emit('configChanged', { changes: { waves: this.config.waves } });
+    }
+    
+    // 设置海况系数，振幅与速度会平滑过渡到新的海况
+    setSeaState(seaState: number): void {
+        this.config.seaState = Math.max(0, seaState);
+        this.emit('configChanged', { changes: { seaState: this.config.seaState } });
+    }
+    
+    // 获取目标海况系数
+    getSeaState(): number {
+        return this.config.seaState;
+    }
+    
+    // 创建鲨鱼
+    private createSharks(): void {
+        this.sharks = [];
+        
+        for (let i = 0; i < this.config.sharkCount; i++) {
+            this.sharks.push(this.createShark({}, i));
+        }
+    }
+    
+    // 创建单条鲨鱼
+    private createShark(options: SharkOptions, index: number): Shark {
+        const x = this.random.next() * this.size.width;
+        const y = this.random.next() * (this.size.height - 100) + 50;
+        const z = Math.max(0, Math.min(1, options.z ?? this.random.next()));
+        const size = options.size ?? this.config.sharkSize;
+        // 初始位置同样限制在可游动范围内
+        const position = this.constrainSwimPoint(options.x ?? x, options.y ?? y, size);
+        const behavior = options.behavior !== undefined && this.behaviors.has(options.behavior)
+            ? options.behavior
+            : this.getInitialBehavior();
+        
+        const shark: Shark = {
+            id: this.nextSharkId++,
+            x: position.x,
+            y: position.y,
+            z,
+            targetZ: z,
+            size,
+            speed: options.speed ?? this.config.sharkSpeed,
+            angle: 0,
+            swimSpeed: 0,
+            facing: 1,
+            pitch: 0,
+            bank: 0,
+            tailAngle: 0,
+            tailDirection: 1,
+            targetX: this.size.width / 2,
+            targetY: this.size.height / 2,
+            appearance: options.appearance ? { ...options.appearance } : this.getSharkVariant(index),
+            behavior: { name: behavior, elapsed: 0, roll: this.random.next(), memory: {} },
+            behaviorRules: options.behaviorRules ? options.behaviorRules.map(rule => ({ ...rule })) : null,
+            speedScale: 1,
+            arriveAtTarget: true,
+            breach: null,
+            nextBreach: this.getBreachDelay(),
+            hunger: this.getInitialHunger(),
+            bite: 0,
+            command: null,
+            direction: 'right',
+            hasArrived: false
+        };
+        this.runBehavior(behavior, 'enter', shark, () => this.createWorldState(0));
+        return shark;
+    }
+    
+    // 获取第 index 条鲨鱼的外观覆盖配置
+    private getSharkVariant(index: number): Partial<SharkAppearance> {
+        const variants = this.config.sharkVariants;
+        return variants.length > 0 ? { ...variants[index % variants.length] } : {};
+    }
+    
+    // 创建气泡
+    private createBubbles(): void {
+        this.particles.releaseWhere(particle => particle.kind === 'bubble' && particle.source === 'ambient');
+        for (let i = 0; i < this.getAmbientBubbleCount(); i++) {
+            const particle = this.particles.acquire();
+            if (!particle) break;
+            this.resetAmbientBubble(particle);
+        }
+    }
+    
+    // 当前画质下的环境气泡数量
+    private getAmbientBubbleCount(): number {
+        return Math.round(this.config.bubbleCount * this.getQualitySettings().bubbleScale);
+    }
+    
+    // 按当前画质调整环境气泡数量：多余的归还粒子池，不足的从海底补充
+    private syncAmbientBubbles(): void {
+        const count = this.getAmbientBubbleCount();
+        const ambient = this.particles.filter(particle => particle.kind === 'bubble' && particle.source === 'ambient');
+        ambient.slice(count).forEach(particle => this.particles.release(particle));
+        for (let i = ambient.length; i < count; i++) {
+            const particle = this.particles.acquire();
+            if (!particle) break;
+            this.resetAmbientBubble(particle);
+        }
+    }
+    
+    // 在海底随机位置重新生成环境气泡
+    private resetAmbientBubble(particle: Particle): void {
+        particle.spawnBubble(
+            'ambient',
+            this.random.next() * this.size.width,
+            this.size.height + this.random.next() * 100,
+            this.random.next() * 10 + 5,
+            (this.random.next() * 2 + 1) * BASE_FPS,
+            this.random.next() * 0.5 + 0.2,
+            this.random.next() * Math.PI * 2,
+            this.random.next()
+        );
+    }
+    
+    // 回收气泡：环境气泡回到海底重新上升，其他来源的气泡归还粒子池
+    private recycleBubble(particle: Particle): void {
+        if (particle.source === 'ambient') {
+            this.resetAmbientBubble(particle);
+        } else {
+            this.particles.release(particle);
+        }
+    }
+    
+    // 添加鲨鱼，返回新鲨鱼的 id
+    addShark(options: SharkOptions = {}): number {
+        const shark = this.createShark(options, this.sharks.length);
+        this.sharks.push(shark);
+        this.invalidate();
+        return shark.id;
+    }
+    
+    // 移除鲨鱼，不传 id 时移除最后添加的鲨鱼，返回是否成功移除
+    removeShark(id?: number): boolean {
+        if (id === undefined) {
+            const last = this.sharks[this.sharks.length - 1];
+            return last ? this.removeShark(last.id) : false;
+        }
+        
+        const index = this.sharks.findIndex(shark => shark.id === id);
+        if (index === -1) return false;
+        
+        this.sharks.splice(index, 1);
+        if (this.selectedSharkId === id) {
+            this.selectedSharkId = null;
+            this.emit('sharkDeselected', { id });
+        }
+        this.invalidate();
+        return true;
+    }
+    
+    // 获取所有鲨鱼的只读快照
+    getSharks(): SharkSnapshot[] {
+        return this.sharks.map(shark => this.createSharkSnapshot(shark));
+    }
+    
+    // 获取指定鲨鱼的只读快照
+    getShark(id: number): SharkSnapshot | undefined {
+        const shark = this.findShark(id);
+        return shark ? this.createSharkSnapshot(shark) : undefined;
+    }
+    
+    // 让鲨鱼游向指定位置并停留，返回鲨鱼是否存在
+    moveSharkTo(id: number, x: number, y: number): boolean {
+        const shark = this.findShark(id);
+        if (!shark) return false;
+        
+        shark.command = { type: 'moveTo', x, y };
+        return true;
+    }
+    
+    // 让鲨鱼沿路径点依次游动，loop 为 true 时循环，否则停留在终点
+    followPath(id: number, points: Point[], options: { loop?: boolean } = {}): boolean {
+        const shark = this.findShark(id);
+        if (!shark || points.length === 0) return false;
+        
+        shark.command = {
+            type: 'path',
+            points: points.map(point => ({ x: point.x, y: point.y })),
+            index: 0,
+            loop: options.loop ?? false
+        };
+        return true;
+    }
+    
+    // 取消鲨鱼的指令，恢复行为状态机
+    releaseShark(id: number): boolean {
+        const shark = this.findShark(id);
+        if (!shark) return false;
+        
+        shark.command = null;
+        return true;
+    }
+    
+    // 设置单条鲨鱼的速度
+    setSharkSpeed(id: number, speed: number): boolean {
+        const shark = this.findShark(id);
+        if (!shark) return false;
+        
+        shark.speed = speed;
+        return true;
+    }
+    
+    // 设置单条鲨鱼的深度（0 为最近，1 为最远），鲨鱼会逐渐游到该深度并停留在那里
+    setSharkDepth(id: number, z: number): boolean {
+        const shark = this.findShark(id);
+        if (!shark) return false;
+        
+        shark.targetZ = Math.max(0, Math.min(1, z));
+        return true;
+    }
+    
+    // 按 id 查找鲨鱼
+    private findShark(id: number): Shark | undefined {
+        return this.sharks.find(shark => shark.id === id);
+    }
+    
+    // 获取鲨鱼当前的运动模式
+    private getSharkMode(shark: Shark): SharkMode {
+        if (shark.command) return shark.command.type;
+        return shark.behavior.name === 'follow' || shark.behavior.name === 'circle' ? 'follow' : 'auto';
+    }
+    
+    // 生成鲨鱼只读快照
+    private createSharkSnapshot(shark: Shark): SharkSnapshot {
+        return Object.freeze({
+            id: shark.id,
+            x: shark.x,
+            y: shark.y,
+            z: shark.z,
+            size: shark.size,
+            speed: shark.speed,
+            angle: shark.angle,
+            vx: Math.cos(shark.angle) * shark.swimSpeed,
+            vy: Math.sin(shark.angle) * shark.swimSpeed,
+            direction: shark.direction,
+            targetX: shark.targetX,
+            targetY: shark.targetY,
+            mode: this.getSharkMode(shark),
+            behavior: shark.behavior.name,
+            breaching: shark.breach !== null,
+            hunger: shark.hunger,
+            appearance: Object.freeze({
+                ...DEFAULT_SHARK_APPEARANCE,
+                ...this.config.sharkAppearance,
+                ...shark.appearance
+            })
+        });
+    }
+    
+    // 改变鲨鱼速度
+    changeSharkSpeed(): void {
+        this.config.sharkSpeed = 2 + this.random.next() * 4;
+        this.sharks.forEach(shark => {
+            shark.speed = this.config.sharkSpeed;
+        });
+        this.emit('configChanged', { changes: { sharkSpeed: this.config.sharkSpeed } });
+    }
+    
+    // 设置鲨鱼外观（与当前外观合并），传入 id 时只修改该鲨鱼
+    setSharkAppearance(appearance: Partial<SharkAppearance>, id?: number): boolean {
+        if (id === undefined) {
+            this.config.sharkAppearance = { ...this.config.sharkAppearance, ...appearance };
+            this.emit('configChanged', { changes: { sharkAppearance: appearance } });
+            return true;
+        }
+        
+        const shark = this.findShark(id);
+        if (!shark) return false;
+        
+        shark.appearance = { ...shark.appearance, ...appearance };
+        return true;
+    }
+    
+    // 获取当前鲨鱼外观
+    getSharkAppearance(): SharkAppearance {
+        return { ...DEFAULT_SHARK_APPEARANCE, ...this.config.sharkAppearance };
+    }
+    
+    // 切换气泡显示
+    toggleBubbles(): void {
+        this.config.enableBubbles = !this.config.enableBubbles;
+        if (this.config.enableBubbles && !this.hasAmbientBubbles()) {
+            this.createBubbles();
+        }
+        this.emit('configChanged', { changes: { enableBubbles: this.config.enableBubbles } });
+    }
+    
+    // 切换背景显示
+    toggleBackground(): void {
+        this.config.enableBackground = !this.config.enableBackground;
+        this.emit('configChanged', { changes: { enableBackground: this.config.enableBackground } });
+    }
+    
+    // 设置背景渐变
+    setBackgroundGradient(colors: string[], stops?: number[]): void {
+        this.themeTransition = null;
+        this.config.backgroundGradient.colors = colors;
+        if (stops) {
+            this.config.backgroundGradient.stops = stops;
+        }
+        this.emit('configChanged', { changes: { backgroundGradient: { ...this.config.backgroundGradient } } });
+    }
+    
+    // 设置海浪颜色
+    setWaveColors(colors: string[]): void {
+        this.themeTransition = null;
+        this.config.waveColors = colors;
+        this.createWaves();
+        this.emit('configChanged', { changes: { waveColors: this.getWaveColors() } });
+    }
+    
+    // 添加海浪颜色
+    addWaveColor(color: string): void {
+        this.themeTransition = null;
+        this.config.waveColors.push(color);
+        this.createWaves();
+        this.emit('configChanged', { changes: { waveColors: this.getWaveColors() } });
+    }
+    
+    // 移除海浪颜色
+    removeWaveColor(index: number): void {
+        if (index >= 0 && index < this.config.waveColors.length) {
+            this.themeTransition = null;
+            this.config.waveColors.splice(index, 1);
+            this.createWaves();
+            this.emit('configChanged', { changes: { waveColors: this.getWaveColors() } });
+        }
+    }
+    
+    // 清空海浪颜色并设置新颜色
+    clearAndSetWaveColors(colors: string[]): void {
+        this.themeTransition = null;
+        this.config.waveColors = [...colors];
+        this.createWaves();
+        this.emit('configChanged', { changes: { waveColors: this.getWaveColors() } });
+    }
+    
+    // 获取当前海浪颜色
+    getWaveColors(): string[] {
+        return [...this.config.waveColors];
+    }
+    
+    // 重置海洋世界
+    reset(): void {
+        this.selectShark(null);
+        this.sharks = [];
+        this.fishEaten = 0;
+        this.fishBorn = 0;
+        this.particles.clear();
+        this.resetSurface();
+        this.createSharks();
+        this.createFish();
+        if (this.config.enableBubbles) {
+            this.createBubbles();
+        }
+    }
+    
+    // 使用新的种子重新生成场景，用于回放
+    reseed(seed: number): void {
+        this.config.seed = seed;
+        this.random.seed(seed);
+        this.simulationTime = 0;
+        this.nextSharkId = 1;
+        this.createWaves();
+        this.createSeabed();
+        this.reset();
+        this.emit('configChanged', { changes: { seed } });
+    }
+    
+    // 获取当前随机数种子
+    getSeed(): number {
+        return this.config.seed;
+    }
+    
+    // 注册主题（所有实例共享），同名主题会被覆盖
+    static registerTheme(name: string, theme: OceanTheme): void {
+        themeRegistry.set(name, {
+            backgroundGradient: {
+                colors: [...theme.backgroundGradient.colors],
+                stops: theme.backgroundGradient.stops ? [...theme.backgroundGradient.stops] : undefined
+            },
+            waveColors: [...theme.waveColors],
+            bubbleColor: theme.bubbleColor,
+            sharkAppearance: { ...theme.sharkAppearance }
+        });
+    }
+    
+    // 获取所有已注册的主题名称
+    static getThemeNames(): string[] {
+        return [...themeRegistry.keys()];
+    }
+    
+    // 切换主题，duration 大于 0 时在该时长内平滑过渡所有颜色，不会重置海浪动画
+    setTheme(name: string, options: ThemeTransitionOptions = {}): void {
+        // 静态模式下没有逐帧绘制，直接切换
+        this.startThemeTransition(name, this.isStaticMotion() ? 0 : options.duration ?? 0);
+        this.emit('configChanged', { changes: { theme: name } });
+    }
+    
+    // 获取当前主题名称（过渡中返回目标主题）
+    getTheme(): string {
+        return this.config.theme;
+    }
+    
+    // 开始主题过渡：把新旧背景渐变重采样到相同的位置上，逐帧插值所有颜色
+    private startThemeTransition(name: string, duration: number): void {
+        const theme = getTheme(name);
+        const { colors = [], stops } = this.config.backgroundGradient;
+        const currentStops = resolveGradientStops(colors, stops);
+        const targetStops = resolveThemeStops(theme, this.config.waterLevel);
+        const backgroundStops = [...new Set([...currentStops, ...targetStops])].sort((a, b) => a - b);
+        const targetShark = { ...DEFAULT_SHARK_APPEARANCE, ...theme.sharkAppearance };
+        const currentShark = this.getSharkAppearance();
+        
+        this.config.theme = name;
+        this.themeTransition = {
+            theme,
+            backgroundStops,
+            from: {
+                backgroundColors: backgroundStops.map(t => sampleGradient(colors, currentStops, t)),
+                waveColors: this.waves.map(wave => wave.color),
+                bubbleColor: this.config.bubbleColor,
+                shark: {
+                    backColor: currentShark.backColor,
+                    bellyColor: currentShark.bellyColor,
+                    finColor: currentShark.finColor,
+                    eyeColor: currentShark.eyeColor
+                }
+            },
+            to: {
+                backgroundColors: backgroundStops.map(t =>
+                    sampleGradient(theme.backgroundGradient.colors, targetStops, t)
+                ),
+                waveColors: this.waves.map((_, index) => theme.waveColors[index % theme.waveColors.length]),
+                bubbleColor: theme.bubbleColor,
+                shark: {
+                    backColor: targetShark.backColor,
+                    bellyColor: targetShark.bellyColor,
+                    finColor: targetShark.finColor,
+                    eyeColor: targetShark.eyeColor
+                }
+            },
+            elapsed: 0,
+            duration: Math.max(duration, 0) / 1000
+        };
+        
+        if (duration <= 0) {
+            this.updateThemeTransition(0);
+        }
+    }
+    
+    // 推进主题过渡（秒）
+    private updateThemeTransition(elapsed: number): void {
+        const transition = this.themeTransition;
+        if (!transition) return;
+        
+        transition.elapsed += elapsed;
+        const progress = transition.duration > 0 ? Math.min(transition.elapsed / transition.duration, 1) : 1;
+        if (progress >= 1) {
+            this.finishThemeTransition(transition.theme);
+            return;
+        }
+        
+        const t = smoothstep(progress);
+        const { from, to } = transition;
+        
+        this.config.backgroundGradient = {
+            colors: from.backgroundColors.map((color, index) => mixColors(color, to.backgroundColors[index], t)),
+            stops: transition.backgroundStops
+        };
+        this.waves.forEach((wave, index) => {
+            if (wave.hasCustomColor) return;
+            if (from.waveColors[index] !== undefined && to.waveColors[index] !== undefined) {
+                wave.color = mixColors(from.waveColors[index], to.waveColors[index], t);
+            }
+        });
+        this.config.bubbleColor = mixColors(from.bubbleColor, to.bubbleColor, t);
+        this.config.sharkAppearance = {
+            ...this.config.sharkAppearance,
+            backColor: mixColors(from.shark.backColor, to.shark.backColor, t),
+            bellyColor: mixColors(from.shark.bellyColor, to.shark.bellyColor, t),
+            finColor: mixColors(from.shark.finColor, to.shark.finColor, t),
+            eyeColor: mixColors(from.shark.eyeColor, to.shark.eyeColor, t)
+        };
+    }
+    
+    // 结束主题过渡，精确应用目标主题的配置
+    private finishThemeTransition(theme: OceanTheme): void {
+        this.themeTransition = null;
+        this.config.backgroundGradient = {
+            colors: [...theme.backgroundGradient.colors],
+            stops: resolveThemeStops(theme, this.config.waterLevel)
+        };
+        this.config.waveColors = [...theme.waveColors];
+        this.waves.forEach((wave, index) => {
+            if (wave.hasCustomColor) return;
+            wave.color = theme.waveColors[index % theme.waveColors.length];
+        });
+        this.config.bubbleColor = theme.bubbleColor;
+        this.config.sharkAppearance = { ...this.config.sharkAppearance, ...theme.sharkAppearance };
+    }
+    
+    // 从快照创建海洋世界
+    static fromSnapshot(canvas: string | OceanCanvas, snapshot: OceanWorldSnapshot): OceanWorld {
+        const world = new OceanWorld(canvas, snapshot.config);
+        world.load(snapshot);
+        return world;
+    }
+    
+    // 性能测试：在给定画布上创建含 N 条鲨鱼的场景，同步绘制若干帧并统计每帧耗时
+    static benchmark(canvas: string | OceanCanvas, options: OceanBenchmarkOptions = {}): OceanBenchmarkResult {
+        const sharkCount = options.sharkCount ?? 50;
+        const frames = Math.max(1, options.frames ?? 120);
+        const warmupFrames = options.warmupFrames ?? 10;
+        
+        // 默认关闭自适应画质，使各次测试的结果可比较
+        const world = new OceanWorld(canvas, { seed: 1, adaptiveQuality: { enabled: false }, ...options.options, sharkCount });
+        world.stop();
+        
+        const frameDuration = 1000 / BASE_FPS;
+        let timestamp = 0;
+        for (let i = 0; i < warmupFrames; i++) {
+            world.renderFrame(timestamp += frameDuration);
+        }
+        
+        const times: number[] = [];
+        for (let i = 0; i < frames; i++) {
+            const start = performance.now();
+            world.renderFrame(timestamp += frameDuration);
+            times.push(performance.now() - start);
+        }
+        world.destroy();
+        
+        const sorted = [...times].sort((a, b) => a - b);
+        const average = times.reduce((sum, time) => sum + time, 0) / frames;
+        return {
+            sharkCount,
+            frames,
+            averageFrameTime: average,
+            minFrameTime: sorted[0],
+            maxFrameTime: sorted[sorted.length - 1],
+            p95FrameTime: sorted[Math.min(sorted.length - 1, Math.ceil(sorted.length * 0.95) - 1)],
+            fps: average > 0 ? 1000 / average : Infinity
+        };
+    }
+    
+    // 生成当前场景的快照，结果是可直接 JSON 序列化的普通对象
+    serialize(): OceanWorldSnapshot {
+        return structuredClone({
+            version: SNAPSHOT_VERSION,
+            size: { ...this.size },
+            config: this.config,
+            time: this.simulationTime,
+            timeScale: this.timeScale,
+            paused: this.paused,
+            randomState: this.random.getState(),
+            nextSharkId: this.nextSharkId,
+            selectedSharkId: this.selectedSharkId,
+            sharks: this.sharks,
+            waves: this.waves,
+            bubbles: this.particles.filter(particle => particle.kind === 'bubble').map(particle => particle.getState()),
+            seabed: this.seabed,
+            fishSchools: this.fishSchools,
+            fish: this.fish,
+            fishEaten: this.fishEaten,
+            fishBorn: this.fishBorn
+        });
+    }
+    
+    // 供 JSON.stringify 使用
+    toJSON(): OceanWorldSnapshot {
+        return this.serialize();
+    }
+    
+    // 从快照恢复场景，快照尺寸与当前画布不同时按比例缩放
+    load(snapshot: OceanWorldSnapshot): void {
+        if (!snapshot || typeof snapshot.version !== 'number') {
+            throw new Error('Invalid OceanWorld snapshot');
+        }
+        if (snapshot.version !== SNAPSHOT_VERSION) {
+            throw new Error(`Unsupported OceanWorld snapshot version: ${snapshot.version}`);
+        }
+        
+        const data = structuredClone(snapshot);
+        
+        // JSON 会丢弃值为 undefined 的配置项，缺失的配置项保留当前值
+        this.config = { ...this.config, ...data.config };
+        // 丢弃进行中的主题过渡，避免其继续把颜色混合进恢复后的配置
+        this.themeTransition = null;
+        this.simulationTime = data.time;
+        this.timeScale = data.timeScale;
+        this.paused = data.paused;
+        this.nextSharkId = data.nextSharkId;
+        this.selectedSharkId = data.selectedSharkId;
+        this.sharks = data.sharks;
+        this.seaState = this.config.seaState;
+        this.waterSurfaceY = this.size.height * this.config.waterLevel;
+        this.waves = data.waves;
+        this.seabed = data.seabed;
+        this.fishSchools = data.fishSchools;
+        this.fish = data.fish;
+        this.fishEaten = data.fishEaten;
+        this.fishBorn = data.fishBorn;
+        this.particles.clear();
+        this.particles.setCapacity(this.getBubbleOptions().maxParticles);
+        data.bubbles.forEach(state => this.particles.acquire()?.restoreBubble(state));
+        this.resetSurface();
+        // 恢复场景的过程中可能消耗随机数，因此最后恢复随机数状态
+        this.random.setState(data.randomState);
+        this.clearSharkCaches();
+        
+        if (data.size.width > 0 && data.size.height > 0 &&
+            (data.size.width !== this.size.width || data.size.height !== this.size.height)) {
+            this.rescaleWorld(this.size.width / data.size.width, this.size.height / data.size.height);
+        }
+        
+        this.applyMouseFollow(this.config.enableMouseFollow);
+        this.emit('configChanged', { changes: data.config });
+    }
+    
+    // 切换鼠标跟随
+    toggleMouseFollow(): void {
+        this.setMouseFollow(!this.config.enableMouseFollow);
+    }
+    
+    // 设置鼠标跟随
+    setMouseFollow(enabled: boolean): void {
+        this.applyMouseFollow(enabled);
+        this.emit('configChanged', { changes: { enableMouseFollow: enabled } });
+    }
+    
+    // 应用鼠标跟随配置并重新绑定指针事件
+    private applyMouseFollow(enabled: boolean): void {
+        this.config.enableMouseFollow = enabled;
+        
+        if (enabled) {
+            this.bindPointerEvents();
+        } else {
+            this.unbindPointerEvents();
+            this.isMouseInCanvas = false;
+        }
+    }
+    
+    // 获取补全默认值后的涟漪参数
+    private getRippleOptions(): Required<RippleOptions> {
+        return { ...DEFAULT_RIPPLE_OPTIONS, ...this.config.ripples };
+    }
+    
+    // 按当前参数重建水面，清除所有涟漪和水滴
+    private resetSurface(): void {
+        this.surface.setOptions(this.getRippleOptions());
+        this.surface.resize(this.size.width);
+        this.particles.releaseWhere(particle => particle.kind === 'droplet');
+    }
+    
+    // 指针在水面附近移动时扰动水面，穿过水面时扰动更强
+    private stirSurface(fromX: number, fromY: number, toX: number, toY: number): void {
+        if (!this.config.enableRipples) return;
+        
+        const surfaceY = this.waterSurfaceY;
+        const crossed = (fromY - surfaceY) * (toY - surfaceY) < 0;
+        if (!crossed && Math.abs(toY - surfaceY) > RIPPLE_POINTER_BAND) return;
+        
+        const dx = toX - fromX;
+        const dy = toY - fromY;
+        const impulse = Math.max(-8, Math.min(8, dy * (crossed ? 0.6 : 0.3) + Math.abs(dx) * 0.05));
+        this.surface.disturb(toX, impulse, RIPPLE_POINTER_BAND);
+    }
+    
+    // 鲨鱼靠近水面时顶起水面，穿过水面时溅起水花
+    private disturbSurfaceByShark(shark: Shark, previousY: number, dt: number): void {
+        if (!this.config.enableRipples || dt <= 0) return;
+        
+        const surfaceY = this.waterSurfaceY;
+        const depth = shark.y - surfaceY;
+        if (depth > 0 && depth < shark.size) {
+            const proximity = 1 - depth / shark.size;
+            this.surface.disturb(shark.x, -proximity * 0.6 * dt * BASE_FPS, shark.size * 0.6);
+        }
+        
+        if ((previousY - surfaceY) * (shark.y - surfaceY) < 0) {
+            const verticalSpeed = (shark.y - previousY) / dt;
+            this.surface.disturb(shark.x, Math.max(-10, Math.min(10, verticalSpeed * 0.02)), shark.size);
+            this.splash(shark.x, surfaceY, Math.round(Math.min(12, 4 + Math.abs(verticalSpeed) / 30)), shark.size * 0.05);
+        }
+    }
+    
+    // 在水面指定位置溅起水滴
+    private splash(x: number, y: number, count: number, size: number): void {
+        for (let i = 0; i < count; i++) {
+            const angle = -Math.PI / 2 + (this.random.next() - 0.5) * Math.PI * 0.8;
+            const speed = 120 + this.random.next() * 180;
+            const particle = this.particles.acquire();
+            if (!particle) return;
+            particle.spawnDroplet(
+                x,
+                y,
+                Math.cos(angle) * speed,
+                Math.sin(angle) * speed,
+                Math.max(1, size * (0.6 + this.random.next() * 0.8)),
+                false
+            );
+        }
+    }
+    
+    // 更新水面涟漪
+    private updateSurface(dt: number): void {
+        if (!this.config.enableRipples) return;
+        this.surface.update(dt);
+    }
+    
+    // 获取 x 处水面（含涟漪）的纵坐标
+    private getSurfaceY(x: number): number {
+        return this.waterSurfaceY + (this.config.enableRipples ? this.surface.getHeight(x) : 0);
+    }
+    
+    // 计算涟漪在海浪层上造成的高度偏移，越深的海浪层受影响越小
+    private getRippleHeight(wave: Wave, x: number): number {
+        if (!this.config.enableRipples) return 0;
+        return this.surface.getHeight(x) / (1 + wave.offset / 30);
+    }
+    
+    // 更新海浪：海况平滑趋近目标值，并按海况缩放时间推进速度
+    private updateWaves(dt: number): void {
+        this.seaState += (this.config.seaState - this.seaState) * Math.min(1, dt * SEA_STATE_EASING);
+        this.waves.forEach(wave => {
+            wave.time += dt * this.seaState;
+        });
+    }
+    
+    // 计算海浪分量在 x 处的相位
+    private getWavePhase(wave: Wave, component: WaveLayerComponent, x: number): number {
+        return component.wavenumber * (x - wave.direction * component.speed * wave.time) + component.phase;
+    }
+    
+    // 绘制海浪
+    private drawWaves(): void {
+        this.waves.forEach(wave => {
+            this.ctx.beginPath();
+            
+            if (wave.shape === 'gerstner') {
+                this.traceGerstnerWave(wave);
+            } else {
+                this.traceSineWave(wave);
+            }
+            
+            this.ctx.lineTo(this.size.width, this.size.height);
+            this.ctx.lineTo(0, this.size.height);
+            this.ctx.closePath();
+            
+            this.ctx.globalAlpha = wave.opacity;
+            this.ctx.fillStyle = wave.color;
+            this.ctx.fill();
+            this.ctx.globalAlpha = 1;
+        });
+    }
+    
+    // 描绘正弦叠加波的波面
+    private traceSineWave(wave: Wave): void {
+        const amplitudeScale = this.seaState;
+        
+        const step = this.waveSampleStep;
+        
+        for (let x = 0; x <= this.size.width + step; x += step) {
+            let y = wave.y + this.getRippleHeight(wave, x);
+            wave.components.forEach(component => {
+                y += Math.sin(this.getWavePhase(wave, component, x)) * component.amplitude * amplitudeScale;
+            });
+            
+            if (x === 0) {
+                this.ctx.moveTo(x, y);
+            } else {
+                this.ctx.lineTo(x, y);
+            }
+        }
+    }
+    
+    // 描绘 Gerstner 波的波面：水平方向的质点位移使波峰变尖、波谷变平
+    private traceGerstnerWave(wave: Wave): void {
+        const amplitudeScale = this.seaState;
+        const margin = wave.components.reduce((max, c) => Math.max(max, c.amplitude * amplitudeScale), 0);
+        
+        const step = this.waveSampleStep;
+        
+        for (let x0 = -margin; x0 <= this.size.width + margin + step; x0 += step) {
+            let x = x0;
+            let y = wave.y;
+            wave.components.forEach(component => {
+                const amplitude = component.amplitude * amplitudeScale;
+                const phase = this.getWavePhase(wave, component, x0);
+                const q = amplitude > 0
+                    ? wave.steepness / (component.wavenumber * amplitude * wave.components.length)
+                    : 0;
+                x -= q * amplitude * Math.sin(phase);
+                y -= amplitude * Math.cos(phase);
+            });
+            
+            y += this.getRippleHeight(wave, x);
+            
+            if (x0 === -margin) {
+                this.ctx.moveTo(x, y);
+            } else {
+                this.ctx.lineTo(x, y);
+            }
+        }
+    }
+    
+    // 更新鲨鱼
+    private updateSharks(dt: number): void {
+        const frames = dt * BASE_FPS;
+        const steering = this.getSteeringOptions();
+        // 只有自定义行为读取世界状态，用到时才生成，同一帧内共享
+        let world: OceanWorldState | null = null;
+        const getWorld = () => world ??= this.createWorldState(dt);
+        
+        this.updatePointerVelocity();
+        
+        this.sharks.forEach(shark => {
+            shark.speedScale = 1;
+            if (shark.command) {
+                this.applySharkCommand(shark, shark.command);
+            } else if (dt > 0) {
+                this.updateSharkBehavior(shark, dt, getWorld);
+            }
+            
+            this.updateBreachTarget(shark, dt);
+            if (!shark.breach) {
+                // 指针和指令都不能把鲨鱼引出可游动范围
+                const target = this.constrainSwimPoint(shark.targetX, shark.targetY, shark.size);
+                shark.targetX = target.x;
+                shark.targetY = target.y;
+            }
+            
+            shark.z += (shark.targetZ - shark.z) * Math.min(1, dt * DEPTH_EASING);
+            
+            const previousY = shark.y;
+            if (shark.breach?.phase === 'air') {
+                this.updateAirborneShark(shark, shark.breach, dt);
+            } else {
+                const wasInside = !shark.breach && this.isInSwimZone(shark.x, shark.y, shark.size);
+                this.steerShark(shark, dt, steering);
+                this.confineShark(shark, wasInside);
+            }
+            this.updateBreachPhase(shark);
+            this.updateHunger(shark, dt);
+            
+            this.disturbSurfaceByShark(shark, previousY, dt);
+            
+            const direction = Math.cos(shark.angle) < 0 ? 'left' : 'right';
+            if (direction !== shark.direction) {
+                shark.direction = direction;
+                this.emit('sharkDirectionChanged', { shark: this.createSharkSnapshot(shark), direction });
+            }
+            
+            const hasArrived = Math.hypot(shark.targetX - shark.x, shark.targetY - shark.y) <= ARRIVAL_DISTANCE;
+            if (hasArrived && !shark.hasArrived) {
+                this.emit('sharkTargetReached', {
+                    shark: this.createSharkSnapshot(shark),
+                    targetX: shark.targetX,
+                    targetY: shark.targetY
+                });
+            }
+            shark.hasArrived = hasArrived;
+            
+            // 游得越快尾巴摆动越快
+            const maxSpeed = this.getSharkMaxSpeed(shark);
+            const effort = maxSpeed > 0 ? Math.min(1, shark.swimSpeed / maxSpeed) : 0;
+            shark.tailAngle += 0.2 * shark.tailDirection * frames * (0.4 + 0.6 * effort);
+            if (Math.abs(shark.tailAngle) > 0.5) {
+                shark.tailAngle = Math.sign(shark.tailAngle) * 0.5;
+                shark.tailDirection *= -1;
+            }
+        });
+    }
+
+    // 获取补全默认值后的转向参数
+    private getSteeringOptions(): Required<SteeringOptions> {
+        return { ...DEFAULT_STEERING_OPTIONS, ...this.config.steering };
+    }
+    
+    // 鲨鱼的最大速度（像素/秒），远处的鲨鱼在画面上游得更慢
+    private getSharkMaxSpeed(shark: Shark): number {
+        return shark.speed * shark.speedScale * BASE_FPS * this.getDepthProjection(shark.z).scale;
+    }
+    
+    // 目标点是否为需要停下的终点，沿路径经过的中间点和行为设置的途经点不减速
+    private isFinalTarget(shark: Shark): boolean {
+        const command = shark.command;
+        if (shark.breach) return false;
+        if (!command) return shark.arriveAtTarget;
+        return command.type === 'moveTo' || (!command.loop && command.index === command.points.length - 1);
+    }
+    
+    // 转向行为：期望速度指向目标并在接近时减速，叠加与附近鲨鱼的分离力；
+    // 实际方向按最大转向速度逐渐转向期望方向，速度按加速度逐渐变化
+    private steerShark(shark: Shark, dt: number, options: Required<SteeringOptions>): void {
+        const maxSpeed = this.getSharkMaxSpeed(shark);
+        const dx = shark.targetX - shark.x;
+        const dy = shark.targetY - shark.y;
+        const distance = Math.hypot(dx, dy);
+        
+        let desiredX = 0;
+        let desiredY = 0;
+        if (distance > ARRIVAL_DISTANCE) {
+            const slowdown = this.isFinalTarget(shark)
+                ? Math.min(1, distance / Math.max(1, options.arrivalRadius * shark.size))
+                : 1;
+            desiredX = dx / distance * maxSpeed * slowdown;
+            desiredY = dy / distance * maxSpeed * slowdown;
+        }
+        
+        const separation = this.getSeparationForce(shark, options);
+        desiredX += separation.x * maxSpeed * options.separation;
+        desiredY += separation.y * maxSpeed * options.separation;
+        
+        const avoidance = this.getZoneAvoidance(shark);
+        desiredX += avoidance.x * maxSpeed;
+        desiredY += avoidance.y * maxSpeed;
+        
+        const desiredSpeed = Math.min(maxSpeed, Math.hypot(desiredX, desiredY));
+        let turn = 0;
+        let targetSpeed = 0;
+        if (desiredSpeed > 1) {
+            const delta = normalizeAngle(Math.atan2(desiredY, desiredX) - shark.angle);
+            const maxTurn = options.maxTurnRate * dt;
+            turn = Math.max(-maxTurn, Math.min(maxTurn, delta));
+            shark.angle = normalizeAngle(shark.angle + turn);
+            // 期望方向在身后时先减速，以较小的半径转身
+            targetSpeed = desiredSpeed * Math.max(0.25, (1 + Math.cos(delta)) / 2);
+        }
+        
+        const maxChange = options.acceleration * maxSpeed * dt;
+        shark.swimSpeed += Math.max(-maxChange, Math.min(maxChange, targetSpeed - shark.swimSpeed));
+        shark.x += Math.cos(shark.angle) * shark.swimSpeed * dt;
+        shark.y += Math.sin(shark.angle) * shark.swimSpeed * dt;
+        
+        // 姿态：转身时朝向在左右之间过渡，上浮下潜时抬头或低头，转弯时侧倾
+        if (dt > 0) {
+            const facing = Math.cos(shark.angle) < 0 ? -1 : 1;
+            const pitch = Math.atan2(Math.sin(shark.angle), Math.abs(Math.cos(shark.angle)));
+            const maxPitch = options.maxPitch * Math.min(1, shark.swimSpeed / Math.max(1, maxSpeed * 0.5));
+            const turnRate = options.maxTurnRate > 0 ? turn / dt / options.maxTurnRate : 0;
+            
+            shark.facing += (facing - shark.facing) * Math.min(1, dt * FACING_EASING);
+            shark.pitch += (Math.max(-maxPitch, Math.min(maxPitch, pitch)) - shark.pitch) * Math.min(1, dt * PITCH_EASING);
+            shark.bank += (turnRate * options.banking - shark.bank) * Math.min(1, dt * BANK_EASING);
+        }
+    }
+    
+    // 分离力：附近同一深度范围内的鲨鱼越近，推开的力越大，结果以最大速度为单位
+    private getSeparationForce(shark: Shark, options: Required<SteeringOptions>): Point {
+        const force = { x: 0, y: 0 };
+        if (options.separation <= 0) return force;
+        
+        this.sharks.forEach(other => {
+            if (other === shark || Math.abs(other.z - shark.z) > SEPARATION_DEPTH) return;
+            
+            const range = (shark.size + other.size) * options.separationDistance;
+            let dx = shark.x - other.x;
+            let dy = shark.y - other.y;
+            let distance = Math.hypot(dx, dy);
+            if (distance >= range) return;
+            
+            // 完全重叠时按 id 选一个固定方向推开
+            if (distance < 1e-6) {
+                dx = Math.cos(shark.id);
+                dy = Math.sin(shark.id);
+                distance = 1;
+            }
+            
+            const strength = 1 - distance / range;
+            force.x += dx / distance * strength;
+            force.y += dy / distance * strength;
+        });
+        return force;
+    }
+
+    // 排除区域的避让力：朝排除区域游去时提前转向，已在区域内时直接推出，结果以最大速度为单位
+    private getZoneAvoidance(shark: Shark): Point {
+        const force = { x: 0, y: 0 };
+        if (shark.breach) return force;
+        
+        const padding = shark.size * ZONE_PADDING;
+        const range = shark.size * ZONE_AVOIDANCE_RANGE;
+        const headingX = Math.cos(shark.angle);
+        const headingY = Math.sin(shark.angle);
+        
+        this.resolveSwimZones(this.getSwimZoneOptions().exclude).forEach(polygon => {
+            const inside = isPointInPolygon(polygon, shark);
+            const projection = projectOntoPolygon(polygon, shark);
+            const dx = shark.x - projection.x;
+            const dy = shark.y - projection.y;
+            const distance = Math.hypot(dx, dy);
+            const gap = inside ? 0 : Math.max(0, distance - padding);
+            if (gap >= range) return;
+            
+            const normalX = inside || distance < 1e-6 ? projection.normalX : dx / distance;
+            const normalY = inside || distance < 1e-6 ? projection.normalY : dy / distance;
+            // 只避让前进方向上的区域，停在区域旁边的鲨鱼不会被一直推开
+            const approach = inside ? 1 : Math.max(0, -(headingX * normalX + headingY * normalY));
+            const strength = (1 - gap / range) * approach;
+            force.x += normalX * strength;
+            force.y += normalY * strength;
+        });
+        return force;
+    }
+    
+    // 获取补全默认值后的可游动范围配置
+    private getSwimZoneOptions(): Required<SwimZoneOptions> {
+        return { ...DEFAULT_SWIM_ZONE_OPTIONS, ...this.config.swimZones };
+    }
+    
+    // 将游动区域转换为画布坐标下的多边形，少于三个顶点的区域被忽略
+    private resolveSwimZones(zones: SwimZone[]): Point[][] {
+        return zones
+            .map(zone => {
+                const scaleX = zone.units === 'ratio' ? this.size.width : 1;
+                const scaleY = zone.units === 'ratio' ? this.size.height : 1;
+                const points = 'points' in zone
+                    ? zone.points
+                    : [
+                        { x: zone.x, y: zone.y },
+                        { x: zone.x + zone.width, y: zone.y },
+                        { x: zone.x + zone.width, y: zone.y + zone.height },
+                        { x: zone.x, y: zone.y + zone.height }
+                    ];
+                return points.map(point => ({ x: point.x * scaleX, y: point.y * scaleY }));
+            })
+            .filter(polygon => polygon.length >= 3);
+    }
+    
+    // 将点限制在可游动范围内：拉回最近的包含区域，推出排除区域并保持距离，
+    // 最后限制在水面以下、海床上方，并与画布边缘保持 margin 的距离
+    private constrainSwimPoint(x: number, y: number, size: number, margin: number = size): Point {
+        const options = this.getSwimZoneOptions();
+        const padding = size * ZONE_PADDING;
+        let point: Point = { x, y };
+        
+        const include = this.resolveSwimZones(options.include);
+        if (include.length > 0 && !include.some(polygon => isPointInPolygon(polygon, point))) {
+            const projections = include.map(polygon => projectOntoPolygon(polygon, point));
+            const distanceTo = (projection: PolygonProjection) => Math.hypot(point.x - projection.x, point.y - projection.y);
+            const nearest = projections.reduce((best, projection) => distanceTo(projection) < distanceTo(best) ? projection : best);
+            point = {
+                x: nearest.x - nearest.normalX * padding * 0.5,
+                y: nearest.y - nearest.normalY * padding * 0.5
+            };
+        }
+        
+        this.resolveSwimZones(options.exclude).forEach(polygon => {
+            const inside = isPointInPolygon(polygon, point);
+            const projection = projectOntoPolygon(polygon, point);
+            const dx = point.x - projection.x;
+            const dy = point.y - projection.y;
+            const distance = Math.hypot(dx, dy);
+            if (!inside && distance >= padding) return;
+            
+            const useNormal = inside || distance < 1e-6;
+            point = {
+                x: projection.x + (useNormal ? projection.normalX : dx / distance) * padding,
+                y: projection.y + (useNormal ? projection.normalY : dy / distance) * padding
+            };
+        });
+        
+        // 水面和海床冲突时（如海床高过水面）以海床为准
+        const minY = Math.max(margin, options.belowSurface ? this.waterSurfaceY + options.surfaceMargin * size : 0);
+        const clampedX = Math.max(margin, Math.min(this.size.width - margin, point.x));
+        const maxY = Math.min(this.size.height - margin, this.getSeabedY(clampedX) - size * 0.5);
+        return { x: clampedX, y: Math.min(maxY, Math.max(minY, point.y)) };
+    }
+    
+    // 点是否位于可游动范围内
+    private isInSwimZone(x: number, y: number, size: number): boolean {
+        const point = this.constrainSwimPoint(x, y, size);
+        return Math.hypot(point.x - x, point.y - y) < 0.5;
+    }
+    
+    // 限制鲨鱼的位置：本帧之前位于可游动范围内的鲨鱼不会游出范围；
+    // 范围改变后（如新增排除区域）已在范围外的鲨鱼只限制在画布内和海床上方，由目标点引导逐渐游回
+    private confineShark(shark: Shark, wasInside: boolean): void {
+        if (wasInside) {
+            const position = this.constrainSwimPoint(shark.x, shark.y, shark.size);
+            shark.x = position.x;
+            shark.y = position.y;
+            return;
+        }
+        
+        shark.x = Math.max(shark.size, Math.min(this.size.width - shark.size, shark.x));
+        shark.y = Math.max(shark.size, Math.min(this.size.height - shark.size, shark.y));
+        shark.y = Math.min(shark.y, this.getSeabedY(shark.x) - shark.size * 0.5);
+    }
+    
+    // 距离下一次跃出水面的随机时间（秒）
+    private getBreachDelay(): number {
+        return this.getSwimZoneOptions().breachInterval * (0.5 + this.random.next());
+    }
+    
+    // 让鲨鱼立即加速上浮并跃出水面，正在跃出水面时返回 false
+    breachShark(id: number): boolean {
+        const shark = this.findShark(id);
+        if (!shark || shark.breach) return false;
+        
+        shark.breach = { phase: 'rise', time: 0, vx: 0, vy: 0 };
+        return true;
+    }
+    
+    // 跃出水面的计时与上浮：到时间后朝前上方加速上浮，有外部指令或超时仍未冲出水面时放弃
+    private updateBreachTarget(shark: Shark, dt: number): void {
+        const options = this.getSwimZoneOptions();
+        if (!shark.breach) {
+            if (!options.breaching || shark.command || dt <= 0) return;
+            shark.nextBreach -= dt;
+            if (shark.nextBreach > 0) return;
+            
+            shark.nextBreach = this.getBreachDelay();
+            shark.breach = { phase: 'rise', time: 0, vx: 0, vy: 0 };
+        }
+        
+        const breach = shark.breach;
+        if (breach.phase !== 'rise') return;
+        
+        breach.time += dt;
+        if (shark.command || breach.time > BREACH_RISE_TIMEOUT) {
+            shark.breach = null;
+            return;
+        }
+        
+        const facing = shark.facing < 0 ? -1 : 1;
+        shark.targetX = Math.max(shark.size, Math.min(this.size.width - shark.size, shark.x + facing * shark.size * 4));
+        shark.targetY = this.waterSurfaceY - shark.size * 2;
+        shark.speedScale = BREACH_RISE_SPEED;
+    }
+    
+    // 上浮的鲨鱼冲出水面后转为飞行，飞行的鲨鱼落回水中后恢复正常游动
+    private updateBreachPhase(shark: Shark): void {
+        const breach = shark.breach;
+        if (!breach) return;
+        
+        if (breach.phase === 'rise' && shark.y < this.waterSurfaceY) {
+            const maxSpeed = this.getSharkMaxSpeed(shark);
+            const facing = shark.facing < 0 ? -1 : 1;
+            const height = this.getSwimZoneOptions().breachHeight * shark.size * (0.6 + this.random.next() * 0.4);
+            breach.phase = 'air';
+            breach.vx = facing * Math.max(Math.abs(Math.cos(shark.angle) * shark.swimSpeed), maxSpeed * 0.5);
+            breach.vy = -Math.sqrt(2 * BREACH_GRAVITY * Math.max(0, height));
+            this.emit('sharkBreached', { shark: this.createSharkSnapshot(shark) });
+        } else if (breach.phase === 'air' && breach.vy > 0 && shark.y > this.waterSurfaceY) {
+            shark.breach = null;
+            shark.swimSpeed = Math.min(shark.swimSpeed, this.getSharkMaxSpeed(shark));
+        }
+    }
+    
+    // 飞行：按抛物线运动，身体顺着速度方向
+    private updateAirborneShark(shark: Shark, breach: SharkBreach, dt: number): void {
+        breach.vy += BREACH_GRAVITY * dt;
+        shark.x = Math.max(shark.size, Math.min(this.size.width - shark.size, shark.x + breach.vx * dt));
+        shark.y += breach.vy * dt;
+        shark.angle = Math.atan2(breach.vy, breach.vx);
+        shark.swimSpeed = Math.hypot(breach.vx, breach.vy);
+        shark.pitch = Math.max(-BREACH_MAX_PITCH, Math.min(BREACH_MAX_PITCH, Math.atan2(breach.vy, Math.abs(breach.vx))));
+        shark.bank -= shark.bank * Math.min(1, dt * BANK_EASING);
+    }
+    
+    // 根据外部指令更新鲨鱼目标点
+    private applySharkCommand(shark: Shark, command: SharkCommand): void {
+        if (command.type === 'moveTo') {
+            shark.targetX = command.x;
+            shark.targetY = command.y;
+            return;
+        }
+        
+        // 可游动范围之外的路径点按限制后的位置判断是否到达，否则鲨鱼会停在范围边缘永远到不了
+        const point = this.constrainSwimPoint(command.points[command.index].x, command.points[command.index].y, shark.size);
+        const distance = Math.hypot(point.x - shark.x, point.y - shark.y);
+        const isLast = command.index === command.points.length - 1 && !command.loop;
+        if (distance <= (isLast ? ARRIVAL_DISTANCE : Math.max(ARRIVAL_DISTANCE, shark.size * WAYPOINT_RADIUS))) {
+            if (command.index < command.points.length - 1) {
+                command.index++;
+            } else if (command.loop) {
+                command.index = 0;
+            }
+        }
+        
+        const next = command.points[command.index];
+        shark.targetX = next.x;
+        shark.targetY = next.y;
+    }
+    
+    // 注册内置行为
+    private createBuiltInBehaviors(): void {
+        const behaviors: Record<typeof BUILT_IN_BEHAVIORS[number], SharkBehavior> = {
+            wander: {
+                enter: context => {
+                    context.memory.heading = context.shark.angle;
+                },
+                update: (context, dt) => this.updateWander(context, dt)
+            },
+            patrol: {
+                enter: context => {
+                    context.memory.index = this.findNearestPatrolPoint(context.shark);
+                },
+                update: context => this.updatePatrol(context)
+            },
+            circle: {
+                enter: context => {
+                    context.memory.direction = context.random.next() < 0.5 ? -1 : 1;
+                },
+                update: context => this.updateCircle(context)
+            },
+            idle: {
+                enter: context => {
+                    context.memory.anchorX = context.shark.x / Math.max(1, this.size.width);
+                    context.memory.anchorY = context.shark.y / Math.max(1, this.size.height);
+                    context.memory.phase = context.random.next() * Math.PI * 2;
+                },
+                update: context => this.updateIdle(context)
+            },
+            flee: {
+                enter: context => {
+                    context.memory.fromX = this.mouseX - this.getDepthProjection(context.shark.z).offsetX;
+                    context.memory.fromY = this.mouseY;
+                    context.memory.depth = Math.min(1, context.shark.z + 0.5);
+                },
+                update: context => this.updateFlee(context)
+            },
+            follow: {
+                update: context => this.updateFollow(context)
+            },
+            hunt: {
+                enter: context => {
+                    context.memory.heading = context.shark.angle;
+                },
+                update: (context, dt) => this.updateHunt(context, dt)
+            },
+            rest: {
+                enter: context => {
+                    context.memory.anchorX = context.shark.x / Math.max(1, this.size.width);
+                    context.memory.anchorY = context.shark.y / Math.max(1, this.size.height);
+                    context.memory.phase = context.random.next() * Math.PI * 2;
+                },
+                update: context => this.updateRest(context)
+            }
+        };
+        
+        BUILT_IN_BEHAVIORS.forEach(name => this.behaviors.set(name, behaviors[name]));
+    }
+    
+    // 注册鲨鱼行为，同名行为（包括内置行为）会被覆盖；Worker 模式下需要在 Worker 中注册
+    registerBehavior(name: string, behavior: SharkBehavior): void {
+        this.behaviors.set(name, behavior);
+    }
+    
+    // 移除自定义行为，内置行为不能移除（可注册同名行为覆盖）；处于该行为的鲨鱼回到初始行为
+    removeBehavior(name: string): boolean {
+        if ((BUILT_IN_BEHAVIORS as readonly string[]).includes(name)) return false;
+        return this.behaviors.delete(name);
+    }
+    
+    // 获取所有已注册的行为名称
+    getBehaviors(): string[] {
+        return [...this.behaviors.keys()];
+    }
+    
+    // 让鲨鱼立即切换到指定行为，行为未注册时返回 false
+    setSharkBehavior(id: number, name: string): boolean {
+        const shark = this.findShark(id);
+        if (!shark || !this.behaviors.has(name)) return false;
+        
+        this.switchSharkBehavior(shark, name, () => this.createWorldState(0));
+        return true;
+    }
+    
+    // 设置鲨鱼专用的行为切换规则，传入 null 时恢复使用配置中的规则
+    setSharkBehaviorRules(id: number, rules: SharkBehaviorRule[] | null): boolean {
+        const shark = this.findShark(id);
+        if (!shark) return false;
+        
+        shark.behaviorRules = rules ? rules.map(rule => ({ ...rule })) : null;
+        return true;
+    }
+    
+    // 获取补全默认值后的行为状态机配置
+    private getBehaviorOptions(): Required<SharkBehaviorOptions> {
+        return { ...DEFAULT_BEHAVIOR_OPTIONS, ...this.config.behavior };
+    }
+    
+    // 新鲨鱼的初始行为，配置的行为未注册时使用漫游
+    private getInitialBehavior(): string {
+        const initial = this.getBehaviorOptions().initial;
+        return this.behaviors.has(initial) ? initial : 'wander';
+    }
+    
+    // 指针是否在画布内且启用了鼠标跟随
+    private isPointerActive(): boolean {
+        return this.isMouseInCanvas && this.config.enableMouseFollow;
+    }
+    
+    // 根据相邻两帧的指针位置估计指针速度（像素/秒）
+    private updatePointerVelocity(): void {
+        if (!this.isMouseInCanvas) {
+            this.lastPointer = null;
+            this.pointerVelocity = { x: 0, y: 0 };
+            return;
+        }
+        
+        const elapsed = this.frameElapsed;
+        if (this.lastPointer && elapsed > 0) {
+            const smoothing = Math.min(1, elapsed * POINTER_VELOCITY_EASING);
+            this.pointerVelocity.x += ((this.mouseX - this.lastPointer.x) / elapsed - this.pointerVelocity.x) * smoothing;
+            this.pointerVelocity.y += ((this.mouseY - this.lastPointer.y) / elapsed - this.pointerVelocity.y) * smoothing;
+        }
+        this.lastPointer = { x: this.mouseX, y: this.mouseY };
+    }
+    
+    // 指针是否在附近快速朝鲨鱼逼近
+    private isPointerThreat(shark: Shark): boolean {
+        if (!this.isPointerActive()) return false;
+        
+        const options = this.getBehaviorOptions();
+        const dx = shark.x - (this.mouseX - this.getDepthProjection(shark.z).offsetX);
+        const dy = shark.y - this.mouseY;
+        const distance = Math.hypot(dx, dy);
+        if (distance > options.fleeDistance * shark.size) return false;
+        
+        // 指针速度在指向鲨鱼方向上的分量
+        const velocity = this.pointerVelocity;
+        const approach = distance > 1e-6
+            ? (velocity.x * dx + velocity.y * dy) / distance
+            : Math.hypot(velocity.x, velocity.y);
+        return approach >= options.fleeSpeed;
+    }
+    
+    // 规则是否适用于鲨鱼的当前行为且条件已满足，切换到当前行为或未注册行为的规则不生效
+    private matchesBehaviorRule(shark: Shark, rule: SharkBehaviorRule): boolean {
+        const state = shark.behavior;
+        if (rule.to === state.name || !this.behaviors.has(rule.to)) return false;
+        if (rule.from && !rule.from.includes(state.name)) return false;
+        
+        switch (rule.when) {
+            case 'pointerPresent':
+                return this.isPointerActive();
+            case 'pointerAbsent':
+                return !this.isPointerActive();
+            case 'pointerThreat':
+                return this.isPointerThreat(shark);
+            case 'timeout': {
+                const [min, max] = rule.after ?? [0, 0];
+                return state.elapsed >= min + state.roll * (max - min);
+            }
+            case 'hungry': {
+                const options = this.getEcosystemOptions();
+                return options.enabled && shark.hunger >= options.huntThreshold;
+            }
+            case 'full': {
+                const options = this.getEcosystemOptions();
+                return options.enabled && shark.hunger <= options.fullThreshold;
+            }
+            default:
+                return false;
+        }
+    }
+    
+    // 推进鲨鱼的行为状态机：先按规则切换行为，再由当前行为设置目标点
+    private updateSharkBehavior(shark: Shark, dt: number, getWorld: () => OceanWorldState): void {
+        // 行为被移除或快照中的自定义行为尚未注册时回到初始行为
+        if (!this.behaviors.has(shark.behavior.name)) {
+            this.switchSharkBehavior(shark, this.getInitialBehavior(), getWorld);
+        }
+        
+        shark.behavior.elapsed += dt;
+        const rules = shark.behaviorRules ?? this.getBehaviorOptions().rules;
+        const rule = rules.find(rule => this.matchesBehaviorRule(shark, rule));
+        if (rule) {
+            this.switchSharkBehavior(shark, rule.to, getWorld);
+        }
+        
+        this.runBehavior(shark.behavior.name, 'update', shark, getWorld, dt);
+    }
+    
+    // 切换鲨鱼的行为：离开旧行为，清空私有状态后进入新行为
+    private switchSharkBehavior(shark: Shark, name: string, getWorld: () => OceanWorldState): void {
+        const previousBehavior = shark.behavior.name;
+        this.runBehavior(previousBehavior, 'exit', shark, getWorld);
+        shark.behavior = { name, elapsed: 0, roll: this.random.next(), memory: {} };
+        this.runBehavior(name, 'enter', shark, getWorld);
+        this.emit('sharkBehaviorChanged', { shark: this.createSharkSnapshot(shark), behavior: name, previousBehavior });
+    }
+    
+    // 调用鲨鱼行为的回调，行为抛出的错误不会中断动画
+    private runBehavior(
+        name: string,
+        phase: 'enter' | 'update' | 'exit',
+        shark: Shark,
+        getWorld: () => OceanWorldState,
+        dt: number = 0
+    ): void {
+        const behavior = this.behaviors.get(name);
+        if (!behavior) return;
+        
+        const context = this.createBehaviorContext(shark, getWorld);
+        try {
+            if (phase === 'update') {
+                behavior.update(context, dt);
+            } else {
+                behavior[phase]?.(context);
+            }
+        } catch (error) {
+            console.error(`Error in OceanWorld behavior '${name}' ${phase}:`, error);
+        }
+    }
+    
+    // 生成传给行为的上下文，鲨鱼快照和世界状态在读取时才生成
+    private createBehaviorContext(shark: Shark, getWorld: () => OceanWorldState): SharkBehaviorContext {
+        let snapshot: SharkSnapshot | null = null;
+        const getSnapshot = () => snapshot ??= this.createSharkSnapshot(shark);
+        
+        return {
+            get shark() {
+                return getSnapshot();
+            },
+            get world() {
+                return getWorld();
+            },
+            elapsed: shark.behavior.elapsed,
+            memory: shark.behavior.memory,
+            random: this.random,
+            setTarget: (x, y, options = {}) => {
+                shark.targetX = x;
+                shark.targetY = y;
+                if (options.z !== undefined) {
+                    shark.targetZ = Math.max(0, Math.min(1, options.z));
+                }
+                shark.arriveAtTarget = options.arrive !== false;
+            },
+            setSpeed: scale => {
+                shark.speedScale = Math.max(0, scale);
+            }
+        };
+    }
+    
+    // 将行为设置的目标点限制在可游动范围内，并与画布边缘保持两倍体长的距离
+    private clampSharkTarget(x: number, y: number, size: number): Point {
+        return this.constrainSwimPoint(x, y, size, size * 2);
+    }
+    
+    // 漫游：前进方向随机缓慢漂移，每隔一段时间大幅转向并换一个深度，前方超出可游动范围时转回范围内
+    private updateWander(context: SharkBehaviorContext, dt: number): void {
+        const { shark, memory } = context;
+        let heading = readNumber(memory, 'heading', shark.angle);
+        heading += (context.random.next() * 2 - 1) * WANDER_JITTER * dt;
+        
+        if (context.elapsed >= readNumber(memory, 'nextTurn', 0)) {
+            heading += (context.random.next() - 0.5) * Math.PI;
+            memory.depth = context.random.next();
+            memory.nextTurn = context.elapsed + (context.random.next() * this.config.autoMoveInterval + 1000) / 1000;
+        }
+        
+        // 垂直方向的前进距离减半，鲨鱼大多水平游动
+        const lookahead = shark.size * WANDER_LOOKAHEAD;
+        const aheadX = shark.x + Math.cos(heading) * lookahead;
+        const aheadY = shark.y + Math.sin(heading) * lookahead * 0.5;
+        const target = this.clampSharkTarget(aheadX, aheadY, shark.size);
+        if (target.x !== aheadX || target.y !== aheadY) {
+            const inward = Math.atan2(target.y - aheadY, target.x - aheadX);
+            heading += normalizeAngle(inward - heading) * Math.min(1, dt * 2);
+        }
+        
+        memory.heading = normalizeAngle(heading);
+        context.setTarget(target.x, target.y, { z: readNumber(memory, 'depth', shark.z), arrive: false });
+    }
+    
+    // 巡逻路径点（画布坐标）
+    private getPatrolPoints(): Point[] {
+        const points = this.getBehaviorOptions().patrol;
+        return (points.length > 0 ? points : DEFAULT_PATROL_POINTS).map(point => ({
+            x: point.x * this.size.width,
+            y: point.y * this.size.height
+        }));
+    }
+    
+    // 距离鲨鱼最近的巡逻路径点序号
+    private findNearestPatrolPoint(shark: SharkSnapshot): number {
+        let nearest = 0;
+        let nearestDistance = Infinity;
+        this.getPatrolPoints().forEach((point, index) => {
+            const distance = Math.hypot(point.x - shark.x, point.y - shark.y);
+            if (distance < nearestDistance) {
+                nearest = index;
+                nearestDistance = distance;
+            }
+        });
+        return nearest;
+    }
+    
+    // 巡逻：依次循环经过巡逻路径点，经过时不减速
+    private updatePatrol(context: SharkBehaviorContext): void {
+        const { shark, memory } = context;
+        const points = this.getPatrolPoints();
+        let index = Math.abs(Math.floor(readNumber(memory, 'index', 0))) % points.length;
+        
+        let target = this.clampSharkTarget(points[index].x, points[index].y, shark.size);
+        if (Math.hypot(target.x - shark.x, target.y - shark.y) <= Math.max(ARRIVAL_DISTANCE, shark.size * WAYPOINT_RADIUS)) {
+            index = (index + 1) % points.length;
+            target = this.clampSharkTarget(points[index].x, points[index].y, shark.size);
+        }
+        
+        memory.index = index;
+        context.setTarget(target.x, target.y, { arrive: false });
+    }
+    
+    // 绕指针打转：游到最前方，目标点沿以指针为圆心的圆周领先鲨鱼一段角度
+    private updateCircle(context: SharkBehaviorContext): void {
+        if (!this.isPointerActive()) return;
+        
+        const { shark, memory } = context;
+        const pointerX = this.mouseX - this.getDepthProjection(shark.z).offsetX;
+        const radius = this.getBehaviorOptions().circleRadius * shark.size;
+        const angle = Math.atan2(shark.y - this.mouseY, shark.x - pointerX) + readNumber(memory, 'direction', 1) * CIRCLE_LEAD;
+        const target = this.clampSharkTarget(
+            pointerX + Math.cos(angle) * radius,
+            this.mouseY + Math.sin(angle) * radius,
+            shark.size
+        );
+        context.setTarget(target.x, target.y, { z: 0, arrive: false });
+    }
+    
+    // 徘徊：放慢速度，在进入徘徊时的位置附近缓慢漂移
+    private updateIdle(context: SharkBehaviorContext): void {
+        const { shark, memory } = context;
+        const time = context.elapsed + readNumber(memory, 'phase', 0);
+        const drift = shark.size * IDLE_DRIFT;
+        const target = this.clampSharkTarget(
+            readNumber(memory, 'anchorX', 0.5) * this.size.width + Math.cos(time * 0.5) * drift,
+            readNumber(memory, 'anchorY', 0.5) * this.size.height + Math.sin(time * 0.8) * drift * 0.4,
+            shark.size
+        );
+        context.setSpeed(IDLE_SPEED);
+        context.setTarget(target.x, target.y);
+    }
+    
+    // 逃离：加速背离指针（指针离开后背离其最后的位置）并游向远处
+    private updateFlee(context: SharkBehaviorContext): void {
+        const { shark, memory } = context;
+        if (this.isPointerActive()) {
+            memory.fromX = this.mouseX - this.getDepthProjection(shark.z).offsetX;
+            memory.fromY = this.mouseY;
+        }
+        
+        let dx = shark.x - readNumber(memory, 'fromX', shark.x);
+        let dy = shark.y - readNumber(memory, 'fromY', shark.y);
+        let distance = Math.hypot(dx, dy);
+        if (distance < 1e-6) {
+            dx = Math.cos(shark.angle);
+            dy = Math.sin(shark.angle);
+            distance = 1;
+        }
+        
+        const lookahead = shark.size * FLEE_LOOKAHEAD;
+        const target = this.clampSharkTarget(
+            shark.x + dx / distance * lookahead,
+            shark.y + dy / distance * lookahead,
+            shark.size
+        );
+        context.setSpeed(this.getBehaviorOptions().fleeBoost);
+        context.setTarget(target.x, target.y, { z: readNumber(memory, 'depth', shark.z), arrive: false });
+    }
+    
+    // 跟随指针：游到最前方，并扣除视差偏移使鲨鱼在画面上追上指针
+    private updateFollow(context: SharkBehaviorContext): void {
+        if (!this.isPointerActive()) return;
+        
+        const offsetX = this.getDepthProjection(context.shark.z).offsetX;
+        context.setTarget(this.mouseX - offsetX, this.mouseY, { z: 0 });
+    }
+
+    // 捕食：追向附近深度相近的鱼中最近的一条，并预判它的位置；附近没有鱼时像漫游一样四处搜寻
+    private updateHunt(context: SharkBehaviorContext, dt: number): void {
+        const { shark } = context;
+        const prey = this.findPrey(shark);
+        if (!prey) {
+            this.updateWander(context, dt);
+            return;
+        }
+        
+        const options = this.getEcosystemOptions();
+        const distance = Math.hypot(prey.x - shark.x, prey.y - shark.y);
+        const chaseSpeed = Math.max(1, shark.speed * BASE_FPS * options.huntBoost);
+        const lead = Math.min(HUNT_LEAD_TIME, distance / chaseSpeed);
+        const target = this.constrainSwimPoint(prey.x + prey.vx * lead, prey.y + prey.vy * lead, shark.size);
+        
+        context.memory.heading = shark.angle;
+        context.setSpeed(options.huntBoost);
+        context.setTarget(target.x, target.y, { z: prey.z, arrive: false });
+    }
+    
+    // 休息：吃饱后放慢速度，在原地附近缓慢漂移
+    private updateRest(context: SharkBehaviorContext): void {
+        this.updateIdle(context);
+        context.setSpeed(REST_SPEED);
+    }
+    
+    // 鲨鱼能发现的最近的鱼：在发现距离内且深度相差不大，深度差按距离折算
+    private findPrey(shark: SharkSnapshot): FishSnapshot | null {
+        const options = this.getEcosystemOptions();
+        const range = options.detectionRange * shark.size;
+        let nearest: Fish | null = null;
+        let nearestScore = Infinity;
+        
+        this.fish.forEach(fish => {
+            const depth = Math.abs((this.fishSchools[fish.school]?.z ?? 0) - shark.z);
+            if (depth > HUNT_DEPTH_RANGE) return;
+            
+            const distance = Math.hypot(fish.x - shark.x, fish.y - shark.y);
+            if (distance > range) return;
+            
+            const score = distance + depth * range;
+            if (score < nearestScore) {
+                nearest = fish;
+                nearestScore = score;
+            }
+        });
+        return nearest ? this.createFishSnapshot(nearest) : null;
+    }
+    
+    // 推进饥饿度和咬合动画，捕食中的鲨鱼嘴部碰到深度相近的鱼时吃掉它
+    private updateHunger(shark: Shark, dt: number): void {
+        shark.bite = Math.max(0, shark.bite - dt);
+        
+        const options = this.getEcosystemOptions();
+        if (!options.enabled || dt <= 0) return;
+        
+        shark.hunger = Math.min(1, shark.hunger + options.hungerRate * dt);
+        if (shark.command || shark.breach || shark.behavior.name !== 'hunt') return;
+        
+        const mouthX = shark.x + Math.cos(shark.angle) * shark.size * MOUTH_OFFSET;
+        const mouthY = shark.y + Math.sin(shark.angle) * shark.size * MOUTH_OFFSET;
+        const reach = options.catchDistance * shark.size;
+        const index = this.fish.findIndex(fish =>
+            Math.abs((this.fishSchools[fish.school]?.z ?? 0) - shark.z) <= CATCH_DEPTH &&
+            Math.hypot(fish.x - mouthX, fish.y - mouthY) <= reach
+        );
+        if (index < 0) return;
+        
+        const [fish] = this.fish.splice(index, 1);
+        shark.hunger = Math.max(0, shark.hunger - options.satiety);
+        shark.bite = BITE_DURATION;
+        this.fishEaten++;
+        
+        // 整群被吃光后从现在开始计算重新出现的时间
+        const school = this.fishSchools[fish.school];
+        if (school && !this.fish.some(other => other.school === fish.school)) {
+            school.nextBirth = options.respawnDelay;
+        }
+        this.emit('fishEaten', { shark: this.createSharkSnapshot(shark), fish: this.createFishSnapshot(fish) });
+    }
+    
+    // 获取捕食生态的种群统计
+    getPopulation(): EcosystemPopulation {
+        const schools = this.fishSchools.map(() => 0);
+        this.fish.forEach(fish => {
+            if (fish.school < schools.length) {
+                schools[fish.school]++;
+            }
+        });
+        const totalHunger = this.sharks.reduce((sum, shark) => sum + shark.hunger, 0);
+        
+        return Object.freeze({
+            sharks: this.sharks.length,
+            hunting: this.sharks.filter(shark => !shark.command && shark.behavior.name === 'hunt').length,
+            averageHunger: this.sharks.length > 0 ? totalHunger / this.sharks.length : 0,
+            fish: this.fish.length,
+            schools: Object.freeze(schools),
+            eaten: this.fishEaten,
+            born: this.fishBorn
+        });
+    }
+
+    // 获取某一深度的绘制投影，未启用景深时为恒等投影
+    private getDepthProjection(z: number): DepthProjection {
+        const options = this.getDepthOptions();
+        if (!options.enabled) {
+            return { offsetX: 0, scale: 1, fog: 0 };
+        }
+        
+        const depth = Math.max(0, Math.min(1, z));
+        return {
+            offsetX: this.parallaxX * options.parallax * (1 - depth),
+            scale: 1 - depth * (1 - options.farScale),
+            fog: depth * options.fog
+        };
+    }
+    
+    // 获取补全默认值后的景深配置
+    private getDepthOptions(): Required<DepthOptions> {
+        return { ...DEFAULT_DEPTH_OPTIONS, ...this.config.depth };
+    }
+    
+    // 视差随指针平滑移动：指针在画布右侧时近处的实体向左偏移，指针离开后回到中间
+    private updateParallax(elapsed: number): void {
+        const target = this.isMouseInCanvas && this.size.width > 0 && !this.isReducedMotion()
+            ? -(this.mouseX / this.size.width - 0.5) * 2
+            : 0;
+        this.parallaxX += (target - this.parallaxX) * Math.min(1, elapsed * PARALLAX_EASING);
+    }
+    
+    // 获取远处实体混合的背景色：取水下中部的背景渐变颜色
+    private getFogColor(): string {
+        const { colors, stops } = this.config.backgroundGradient;
+        if (!colors || colors.length === 0) return '#000000';
+        return sampleGradient(colors, resolveGradientStops(colors, stops), (1 + this.config.waterLevel) / 2);
+    }
+    
+    // 绘制鲨鱼
+    private drawSharks(): void {
+        // 只有需要雾化时才采样背景渐变
+        let fogColor: string | null = null;
+        const getFogColor = () => fogColor ??= this.getFogColor();
+        const detail = this.getQualitySettings().sharkDetail;
+        // 主题过渡期间调色板每帧都不同，精灵无法复用，直接绘制矢量图形
+        const useSprites = this.config.spriteCache && !this.themeTransition;
+        
+        // 由远及近绘制，近处的鲨鱼遮挡远处的鲨鱼
+        const sharks = [...this.sharks].sort((a, b) => b.z - a.z);
+        sharks.forEach(shark => {
+            const projection = this.getDepthProjection(shark.z);
+            const transform = this.getSharkTransform(shark);
+            
+            this.ctx.save();
+            this.ctx.translate(transform.x, transform.y);
+            this.ctx.rotate(transform.rotation);
+            this.ctx.scale(transform.scaleX, transform.scaleY);
+            
+            const palette = this.resolveSharkPalette(shark, getFogColor, projection.fog);
+            const sprite = useSprites
+                ? this.getSharkSprite(shark.size, palette, this.pixelRatio * projection.scale, detail)
+                : null;
+            
+            if (sprite) {
+                this.drawSharkFromSprite(this.ctx, shark.size, shark.tailAngle, palette, sprite);
+            } else {
+                this.drawRealisticShark(this.ctx, shark.size, shark.tailAngle, palette, detail);
+            }
+            
+            if (shark.bite > 0) {
+                this.drawSharkBite(this.ctx, shark.size, Math.sin((1 - shark.bite / BITE_DURATION) * Math.PI), palette);
+            }
+            
+            if (shark.id === this.selectedSharkId) {
+                this.drawSelectionOutline(this.ctx, shark.size);
+            }
+            
+            this.ctx.restore();
+        });
+    }
+
+    /**
+     * 绘制咬合时张开的嘴，openness 为张开程度（0-1）
+     */
+    private drawSharkBite(ctx: OceanRenderingContext, size: number, openness: number, palette: SharkPalette): void {
+        const drop = size * 0.14 * openness;
+        
+        ctx.fillStyle = palette.eye;
+        ctx.beginPath();
+        ctx.moveTo(size * 0.6, size * 0.07);
+        ctx.lineTo(size * 0.88, size * 0.02);
+        ctx.lineTo(size * 0.84, size * 0.05 + drop);
+        ctx.closePath();
+        ctx.fill();
+        
+        ctx.fillStyle = '#ffffff';
+        for (let i = 0; i < 3; i++) {
+            const x = size * (0.66 + i * 0.07);
+            const y = size * (0.06 - i * 0.01);
+            ctx.beginPath();
+            ctx.moveTo(x, y);
+            ctx.lineTo(x + size * 0.02, y + size * 0.03 * openness);
+            ctx.lineTo(x + size * 0.04, y);
+            ctx.closePath();
+            ctx.fill();
+        }
+    }
+
+    /**
+     * 绘制选中鲨鱼的高亮轮廓
+     */
+    private drawSelectionOutline(ctx: OceanRenderingContext, size: number): void {
+        ctx.strokeStyle = this.config.selectionColor;
+        ctx.lineWidth = 2;
+        ctx.setLineDash([size * 0.15, size * 0.1]);
+        ctx.shadowColor = this.config.selectionColor;
+        ctx.shadowBlur = 8;
+        ctx.beginPath();
+        ctx.ellipse(-size * 0.25, -size * 0.03, size * 1.35, size * 0.55, 0, 0, Math.PI * 2);
+        ctx.stroke();
+        ctx.setLineDash([]);
+        ctx.shadowBlur = 0;
+    }
+
+    /**
+     * 清空鲨鱼调色板与精灵缓存
+     */
+    private clearSharkCaches(): void {
+        this.paletteCache.clear();
+        this.spriteCache = new WeakMap();
+        this.spriteCount = 0;
+    }
+    
+    /**
+     * 获取鲨鱼精灵，按调色板、大小、绘制分辨率和细节程度缓存；无法创建离屏画布时返回 null
+     */
+    private getSharkSprite(size: number, palette: SharkPalette, resolution: number, detail: SharkDetail): SharkSprite | null {
+        // 分辨率按 0.25 取整，避免缩放连续变化时反复重建精灵
+        const quantized = Math.max(0.25, Math.ceil(resolution * 4) / 4);
+        const key = `${Math.round(size * 10) / 10}|${quantized}|${detail}`;
+        
+        let sprites = this.spriteCache.get(palette);
+        const cached = sprites?.get(key);
+        if (cached) return cached;
+        
+        if (this.spriteCount >= MAX_SPRITE_CACHE_SIZE) {
+            this.clearSharkCaches();
+            sprites = undefined;
+        }
+        
+        const sprite = this.createSharkSprite(size, palette, quantized, detail);
+        if (!sprite) return null;
+        
+        if (!sprites) {
+            sprites = new Map();
+            this.spriteCache.set(palette, sprites);
+        }
+        sprites.set(key, sprite);
+        this.spriteCount++;
+        return sprite;
+    }
+    
+    /**
+     * 预渲染鲨鱼精灵：身体位于尾巴下方，鳍和头部位于尾巴上方
+     */
+    private createSharkSprite(size: number, palette: SharkPalette, resolution: number, detail: SharkDetail): SharkSprite | null {
+        const x = SHARK_SPRITE_BOUNDS.left * size - SHARK_SPRITE_PADDING;
+        const y = SHARK_SPRITE_BOUNDS.top * size - SHARK_SPRITE_PADDING;
+        const width = (SHARK_SPRITE_BOUNDS.right - SHARK_SPRITE_BOUNDS.left) * size + SHARK_SPRITE_PADDING * 2;
+        const height = (SHARK_SPRITE_BOUNDS.bottom - SHARK_SPRITE_BOUNDS.top) * size + SHARK_SPRITE_PADDING * 2;
+        
+        const render = (draw: (ctx: OceanRenderingContext) => void): OceanCanvas | null => {
+            const canvas = createOffscreenCanvas(Math.ceil(width * resolution), Math.ceil(height * resolution));
+            const ctx = canvas?.getContext('2d') as OceanRenderingContext | null | undefined;
+            if (!canvas || !ctx) return null;
+            
+            ctx.setTransform(resolution, 0, 0, resolution, -x * resolution, -y * resolution);
+            draw(ctx);
+            return canvas;
+        };
+        
+        const under = render(ctx => this.drawSharkBodyRealistic(ctx, size, palette));
+        const over = render(ctx => this.drawSharkOverlayRealistic(ctx, size, palette, detail));
+        if (!under || !over) return null;
+        
+        return { under, over, x, y, width, height };
+    }
+    
+    /**
+     * 用精灵绘制鲨鱼，只有摆动的尾巴逐帧绘制
+     */
+    private drawSharkFromSprite(
+        ctx: OceanRenderingContext,
+        size: number,
+        tailAngle: number,
+        palette: SharkPalette,
+        sprite: SharkSprite
+    ): void {
+        ctx.drawImage(sprite.under, sprite.x, sprite.y, sprite.width, sprite.height);
+        this.drawSharkTailRealistic(ctx, size, tailAngle, palette);
+        ctx.drawImage(sprite.over, sprite.x, sprite.y, sprite.width, sprite.height);
+    }
+
+    /**
+     * 绘制逼真的鲨鱼形状
+     */
+    private drawRealisticShark(
+        ctx: OceanRenderingContext, 
+        size: number, 
+        tailAngle: number,
+        palette: SharkPalette,
+        detail: SharkDetail
+    ): void {
+        this.drawSharkBodyRealistic(ctx, size, palette);
+        this.drawSharkTailRealistic(ctx, size, tailAngle, palette);
+        this.drawSharkOverlayRealistic(ctx, size, palette, detail);
+    }
+
+    /**
+     * 绘制位于尾巴上方的鳍和头部，细节程度较低时省略较小的鳍
+     */
+    private drawSharkOverlayRealistic(
+        ctx: OceanRenderingContext, 
+        size: number, 
+        palette: SharkPalette,
+        detail: SharkDetail
+    ): void {
+        this.drawDorsalFinRealistic(ctx, size, palette);
+        if (detail !== 'low') {
+            this.drawPectoralFinsRealistic(ctx, size, palette);
+        }
+        this.drawSharkHeadRealistic(ctx, size, palette);
+        if (detail === 'high') {
+            this.drawSecondaryFinsRealistic(ctx, size, palette);
+        }
+    }
+
+    /**
+     * 绘制逼真的鲨鱼身体
+     */
+    private drawSharkBodyRealistic(
+        ctx: OceanRenderingContext, 
+        size: number, 
+        palette: SharkPalette
+    ): void {
+        ctx.fillStyle = palette.back;
+        ctx.beginPath();
+        
+        ctx.moveTo(size * 0.9, 0);
+        
+        ctx.bezierCurveTo(
+            size * 0.7, -size * 0.25,
+            size * 0.3, -size * 0.35,
+            -size * 0.2, -size * 0.3
+        );
+        
+        ctx.bezierCurveTo(
+            -size * 0.6, -size * 0.25,
+            -size * 0.8, -size * 0.15,
+            -size * 1.0, -size * 0.1
+        );
+        
+        ctx.lineTo(-size * 1.0, size * 0.05);
+        
+        ctx.bezierCurveTo(
+            -size * 0.8, size * 0.1,
+            -size * 0.6, size * 0.15,
+            -size * 0.2, size * 0.2
+        );
+        
+        ctx.bezierCurveTo(
+            size * 0.3, size * 0.18,
+            size * 0.7, size * 0.1,
+            size * 0.9, size * 0.05
+        );
+        
+        ctx.closePath();
+        ctx.fill();
+        
+        const bellyGradient = ctx.createLinearGradient(0, -size * 0.05, 0, size * 0.3);
+        bellyGradient.addColorStop(0, palette.back);
+        bellyGradient.addColorStop(0.2, palette.tones[0]);
+        bellyGradient.addColorStop(0.4, palette.tones[1]);
+        bellyGradient.addColorStop(0.6, palette.tones[2]);
+        bellyGradient.addColorStop(0.8, palette.tones[3]);
+        bellyGradient.addColorStop(1, palette.belly);
+        
+        ctx.fillStyle = bellyGradient;
+        ctx.beginPath();
+        
+        ctx.moveTo(size * 0.8, size * 0.05);
+        
+        ctx.bezierCurveTo(
+            size * 0.6, -size * 0.1,
+            size * 0.3, -size * 0.15,
+            -size * 0.1, -size * 0.1
+        );
+        
+        ctx.bezierCurveTo(
+            -size * 0.5, -size * 0.05,
+            -size * 0.7, size * 0.05,
+            -size * 0.9, size * 0.1
+        );
+        
+        ctx.bezierCurveTo(
+            -size * 0.7, size * 0.2,
+            -size * 0.5, size * 0.25,
+            -size * 0.2, size * 0.28
+        );
+        
+        ctx.bezierCurveTo(
+            size * 0.3, size * 0.25,
+            size * 0.6, size * 0.15,
+            size * 0.8, size * 0.05
+        );
+        
+        ctx.closePath();
+        ctx.fill();
+        
+        if (!palette.showHighlights) return;
+        
+        const highlightGradient = ctx.createLinearGradient(0, 0, 0, size * 0.25);
+        highlightGradient.addColorStop(0, '#ffffff');
+        highlightGradient.addColorStop(0.5, 'rgba(255, 255, 255, 0.7)');
+        highlightGradient.addColorStop(1, 'rgba(255, 255, 255, 0.3)');
+        
+        ctx.fillStyle = highlightGradient;
+        ctx.beginPath();
+        
+        ctx.moveTo(size * 0.7, size * 0.08);
+        ctx.bezierCurveTo(
+            size * 0.5, size * 0.1,
+            size * 0.2, size * 0.12,
+            -size * 0.1, size * 0.15
+        );
+        ctx.bezierCurveTo(
+            -size * 0.3, size * 0.18,
+            -size * 0.5, size * 0.2,
+            -size * 0.7, size * 0.18
+        );
+        ctx.bezierCurveTo(
+            -size * 0.5, size * 0.15,
+            -size * 0.3, size * 0.12,
+            -size * 0.1, size * 0.1
+        );
+        ctx.bezierCurveTo(
+            size * 0.2, size * 0.08,
+            size * 0.5, size * 0.08,
+            size * 0.7, size * 0.08
+        );
+        
+        ctx.closePath();
+        ctx.fill();
+    }
+
+    /**
+     * 绘制逼真的鲨鱼尾巴
+     */
+    private drawSharkTailRealistic(
+        ctx: OceanRenderingContext, 
+        size: number, 
+        tailAngle: number, 
+        palette: SharkPalette
+    ): void {
+        ctx.fillStyle = palette.back;
+        
+        ctx.beginPath();
+        ctx.moveTo(-size * 0.9, -size * 0.1);
+        ctx.lineTo(-size * 1.5, -size * 0.4 + tailAngle * 6);
+        ctx.lineTo(-size * 1.2, -size * 0.05);
+        ctx.closePath();
+        ctx.fill();
+        
+        const tailGradient = ctx.createLinearGradient(-size * 1.0, 0, -size * 1.5, size * 0.3);
+        tailGradient.addColorStop(0, palette.back);
+        tailGradient.addColorStop(0.4, palette.tones[1]);
+        tailGradient.addColorStop(0.7, palette.tones[3]);
+        tailGradient.addColorStop(1, palette.belly);
+        
+        ctx.fillStyle = tailGradient;
+        ctx.beginPath();
+        ctx.moveTo(-size * 0.9, size * 0.1);
+        ctx.lineTo(-size * 1.5, size * 0.3 + tailAngle * 6);
+        ctx.lineTo(-size * 1.2, size * 0.05);
+        ctx.closePath();
+        ctx.fill();
+        
+        ctx.fillStyle = palette.back;
+        ctx.beginPath();
+        ctx.moveTo(-size * 0.9, -size * 0.08);
+        ctx.lineTo(-size * 1.1, 0);
+        ctx.lineTo(-size * 0.9, size * 0.08);
+        ctx.closePath();
+        ctx.fill();
+        
+        const tailBaseGradient = ctx.createLinearGradient(-size * 0.9, 0, -size * 1.1, size * 0.08);
+        tailBaseGradient.addColorStop(0, palette.back);
+        tailBaseGradient.addColorStop(0.7, palette.belly);
+        
+        ctx.fillStyle = tailBaseGradient;
+        ctx.beginPath();
+        ctx.moveTo(-size * 0.9, size * 0.05);
+        ctx.lineTo(-size * 1.1, size * 0.08);
+        ctx.lineTo(-size * 0.9, size * 0.08);
+        ctx.closePath();
+        ctx.fill();
+    }
+
+    /**
+     * 绘制逼真的背鳍
+     */
+    private drawDorsalFinRealistic(
+        ctx: OceanRenderingContext, 
+        size: number, 
+        palette: SharkPalette
+    ): void {
+        ctx.fillStyle = palette.fin;
+        ctx.beginPath();
+        ctx.moveTo(-size * 0.1, -size * 0.3);
+        ctx.lineTo(-size * 0.3, -size * 0.5);
+        ctx.lineTo(-size * 0.5, -size * 0.25);
+        ctx.closePath();
+        ctx.fill();
+        
+        ctx.strokeStyle = palette.finEdge;
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.moveTo(-size * 0.1, -size * 0.3);
+        ctx.lineTo(-size * 0.3, -size * 0.5);
+        ctx.stroke();
+    }
+
+    /**
+     * 绘制逼真的胸鳍
+     */
+    private drawPectoralFinsRealistic(
+        ctx: OceanRenderingContext, 
+        size: number, 
+        palette: SharkPalette
+    ): void {
+        const finGradient = ctx.createLinearGradient(size * 0.2, 0, size * 0.6, size * 0.3);
+        finGradient.addColorStop(0, palette.back);
+        finGradient.addColorStop(0.3, palette.tones[1]);
+        finGradient.addColorStop(0.6, palette.tones[3]);
+        finGradient.addColorStop(1, palette.belly);
+        
+        ctx.fillStyle = finGradient;
+        ctx.beginPath();
+        ctx.moveTo(size * 0.2, size * 0.05);
+        ctx.lineTo(size * 0.6, size * 0.2);
+        ctx.lineTo(size * 0.3, size * 0.3);
+        ctx.closePath();
+        ctx.fill();
+        
+        ctx.beginPath();
+        ctx.moveTo(size * 0.2, -size * 0.05);
+        ctx.lineTo(size * 0.6, -size * 0.2);
+        ctx.lineTo(size * 0.3, -size * 0.3);
+        ctx.closePath();
+        ctx.fill();
+    }
+
+    /**
+     * 绘制逼真的鲨鱼头部
+     */
+    private drawSharkHeadRealistic(
+        ctx: OceanRenderingContext, 
+        size: number, 
+        palette: SharkPalette
+    ): void {
+        ctx.fillStyle = palette.eye;
+        ctx.beginPath();
+        ctx.arc(size * 0.6, -size * 0.15, size * 0.04, 0, Math.PI * 2);
+        ctx.fill();
+        
+        if (palette.showHighlights) {
+            ctx.fillStyle = palette.belly;
+            ctx.beginPath();
+            ctx.arc(size * 0.62, -size * 0.16, size * 0.01, 0, Math.PI * 2);
+            ctx.fill();
+        }
+        
+        ctx.fillStyle = palette.back;
+        ctx.beginPath();
+        ctx.moveTo(size * 0.9, 0);
+        ctx.lineTo(size * 0.8, -size * 0.1);
+        ctx.lineTo(size * 0.8, size * 0.1);
+        ctx.closePath();
+        ctx.fill();
+        
+        const noseGradient = ctx.createLinearGradient(size * 0.8, 0, size * 0.9, size * 0.1);
+        noseGradient.addColorStop(0, palette.back);
+        noseGradient.addColorStop(0.7, palette.belly);
+        
+        ctx.fillStyle = noseGradient;
+        ctx.beginPath();
+        ctx.moveTo(size * 0.85, size * 0.02);
+        ctx.lineTo(size * 0.8, size * 0.08);
+        ctx.lineTo(size * 0.8, -size * 0.02);
+        ctx.closePath();
+        ctx.fill();
+        
+        ctx.strokeStyle = palette.eye;
+        ctx.lineWidth = 1.5;
+        ctx.beginPath();
+        ctx.moveTo(size * 0.7, size * 0.05);
+        ctx.bezierCurveTo(
+            size * 0.5, size * 0.15,
+            size * 0.3, size * 0.12,
+            size * 0.2, size * 0.08
+        );
+        ctx.stroke();
+        
+        if (palette.showGills) {
+            const gillGradient = ctx.createLinearGradient(size * 0.3, -size * 0.05, size * 0.8, size * 0.05);
+            gillGradient.addColorStop(0, palette.back);
+            gillGradient.addColorStop(0.3, palette.tones[0]);
+            gillGradient.addColorStop(0.7, palette.tones[2]);
+            gillGradient.addColorStop(1, palette.belly);
+            
+            ctx.strokeStyle = gillGradient;
+            ctx.lineWidth = 1.2;
+            for (let i = 0; i < 5; i++) {
+                ctx.beginPath();
+                ctx.arc(size * 0.3 + i * size * 0.1, 0, size * 0.03, 0.2 * Math.PI, 0.8 * Math.PI);
+                ctx.stroke();
+            }
+        }
+        
+        ctx.fillStyle = palette.eye;
+        for (let i = 0; i < 2; i++) {
+            ctx.beginPath();
+            ctx.arc(size * 0.8, size * 0.02 + i * size * 0.03, 1.5, 0, Math.PI * 2);
+            ctx.fill();
+        }
+        
+        const chinGradient = ctx.createLinearGradient(size * 0.2, size * 0.08, size * 0.7, size * 0.05);
+        chinGradient.addColorStop(0, palette.back);
+        chinGradient.addColorStop(0.3, palette.tones[1]);
+        chinGradient.addColorStop(0.7, palette.tones[3]);
+        chinGradient.addColorStop(1, palette.belly);
+        
+        ctx.fillStyle = chinGradient;
+        ctx.beginPath();
+        ctx.moveTo(size * 0.7, size * 0.05);
+        ctx.bezierCurveTo(
+            size * 0.6, size * 0.08,
+            size * 0.4, size * 0.1,
+            size * 0.2, size * 0.08
+        );
+        ctx.bezierCurveTo(
+            size * 0.4, size * 0.06,
+            size * 0.6, size * 0.04,
+            size * 0.7, size * 0.05
+        );
+        ctx.closePath();
+        ctx.fill();
+    }
+
+    /**
+     * 绘制次要鳍
+     */
+    private drawSecondaryFinsRealistic(
+        ctx: OceanRenderingContext, 
+        size: number, 
+        palette: SharkPalette
+    ): void {
+        ctx.fillStyle = palette.fin;
+        ctx.beginPath();
+        ctx.moveTo(-size * 0.7, -size * 0.25);
+        ctx.lineTo(-size * 0.8, -size * 0.35);
+        ctx.lineTo(-size * 0.9, -size * 0.2);
+        ctx.closePath();
+        ctx.fill();
+        
+        const analFinGradient = ctx.createLinearGradient(-size * 0.7, size * 0.15, -size * 0.9, size * 0.25);
+        analFinGradient.addColorStop(0, palette.back);
+        analFinGradient.addColorStop(0.3, palette.tones[1]);
+        analFinGradient.addColorStop(0.7, palette.tones[3]);
+        analFinGradient.addColorStop(1, palette.belly);
+        
+        ctx.fillStyle = analFinGradient;
+        ctx.beginPath();
+        ctx.moveTo(-size * 0.7, size * 0.15);
+        ctx.lineTo(-size * 0.8, size * 0.25);
+        ctx.lineTo(-size * 0.9, size * 0.1);
+        ctx.closePath();
+        ctx.fill();
+    }
+
+    /**
+     * 解析鲨鱼外观：合并全局外观与单条鲨鱼的覆盖配置，并派生渐变色阶
+     */
+    private resolveSharkPalette(shark: Shark, getFogColor: () => string, fog: number): SharkPalette {
+        // 雾化程度量化为 10 档，避免缓存随深度连续变化而失效
+        const fogLevel = Math.round(fog * 10);
+        const fogColor = fogLevel > 0 ? getFogColor() : '';
+        const appearance: SharkAppearance = {
+            ...DEFAULT_SHARK_APPEARANCE,
+            ...this.config.sharkAppearance,
+            ...shark.appearance
+        };
+        const key = [
+            appearance.backColor,
+            appearance.bellyColor,
+            appearance.finColor,
+            appearance.eyeColor,
+            appearance.showGills,
+            appearance.showHighlights,
+            fogColor,
+            fogLevel
+        ].join('|');
+        
+        let palette = this.paletteCache.get(key);
+        if (!palette) {
+            if (this.paletteCache.size >= MAX_PALETTE_CACHE_SIZE) {
+                this.paletteCache.clear();
+            }
+            palette = fogSharkPalette(createSharkPalette(appearance), fogColor, fogLevel / 10);
+            this.paletteCache.set(key, palette);
+        }
+        return palette;
+    }
+    
+    // 获取补全默认值后的气泡配置
+    private getBubbleOptions(): Required<BubbleOptions> {
+        return { ...DEFAULT_BUBBLE_OPTIONS, ...this.config.bubbles };
+    }
+    
+    // 是否存在环境气泡
+    private hasAmbientBubbles(): boolean {
+        return this.particles.findLast(particle => particle.kind === 'bubble' && particle.source === 'ambient') !== undefined;
+    }
+    
+    // 鲨鱼局部坐标转换为模拟坐标（与绘制变换一致，不含视差偏移）
+    private toSharkWorld(shark: Shark, local: Point): Point {
+        const transform = this.getSharkTransform(shark);
+        const x = local.x * transform.scaleX;
+        const y = local.y * transform.scaleY;
+        const cos = Math.cos(transform.rotation);
+        const sin = Math.sin(transform.rotation);
+        return {
+            x: shark.x + x * cos - y * sin,
+            y: shark.y + x * sin + y * cos
+        };
+    }
+    
+    // 获取喷口在画布上的位置
+    private getVentPosition(vent: BubbleVentOptions): Point {
+        const x = vent.x * this.size.width;
+        return { x, y: Math.min(this.size.height, this.getSeabedY(x)) };
+    }
+    
+    // 发射一个气泡，粒子池已满时忽略
+    private emitBubble(source: BubbleSource, x: number, y: number, z: number, minSize: number, maxSize: number, vx: number = 0): void {
+        const particle = this.particles.acquire();
+        if (!particle) return;
+        
+        particle.spawnBubble(
+            source,
+            x,
+            y,
+            minSize + this.random.next() * (maxSize - minSize),
+            60 + this.random.next() * 60,
+            this.random.next() * 0.4 + 0.3,
+            this.random.next() * Math.PI * 2,
+            z
+        );
+        particle.vx = vx;
+    }
+    
+    // 在点击位置喷出一团向四周散开的气泡
+    private emitPointerBurst(x: number, y: number): void {
+        const options = this.getBubbleOptions();
+        if (!this.config.enableBubbles || !options.pointerBurst) return;
+        
+        // 点击喷出的气泡位于最近处，扣除视差偏移后正好出现在指针下方
+        const originX = x - this.getDepthProjection(0).offsetX;
+        const count = Math.ceil(options.pointerBurstCount * this.getQualitySettings().bubbleScale);
+        for (let i = 0; i < count; i++) {
+            const angle = this.random.next() * Math.PI * 2;
+            const distance = this.random.next() * 6;
+            this.emitBubble(
+                'pointer',
+                originX + Math.cos(angle) * distance,
+                y + Math.sin(angle) * distance,
+                0,
+                2,
+                6,
+                Math.cos(angle) * (40 + this.random.next() * 80)
+            );
+        }
+    }
+    
+    // 海底喷口与鲨鱼鳃部按频率发射气泡
+    private emitBubbles(dt: number): void {
+        if (!this.config.enableBubbles || dt <= 0) return;
+        
+        const options = this.getBubbleOptions();
+        const bubbleScale = this.getQualitySettings().bubbleScale;
+        
+        options.vents.forEach(vent => {
+            const { x, y } = this.getVentPosition(vent);
+            const spread = vent.spread ?? 12;
+            // 按期望数量逐个掷骰，低频喷口也能偶尔喷出气泡
+            for (let expected = (vent.rate ?? 1.5) * bubbleScale * dt; expected > 0; expected--) {
+                if (this.random.next() < expected) {
+                    this.emitBubble('vent', x + (this.random.next() - 0.5) * spread, y, SEABED_DEPTH, vent.minSize ?? 2, vent.maxSize ?? 5);
+                }
+            }
+        });
+        
+        if (options.gillBubbles && options.gillInterval > 0) {
+            this.sharks.forEach(shark => {
+                if (this.random.next() >= dt * bubbleScale / options.gillInterval) return;
+                
+                const gill = this.toSharkWorld(shark, { x: shark.size * 0.45, y: shark.size * 0.05 });
+                if (gill.y <= this.waterSurfaceY) return;
+                
+                for (let i = 0; i < options.gillBubbleCount; i++) {
+                    this.emitBubble('gill', gill.x + (this.random.next() - 0.5) * shark.size * 0.2, gill.y, shark.z, 1, 3);
+                }
+            });
+        }
+    }
+    
+    // 更新粒子：发射新气泡，推进气泡、水滴和破裂动画
+    private updateParticles(dt: number): void {
+        this.emitBubbles(dt);
+        
+        const options = this.getBubbleOptions();
+        this.particles.forEach(particle => {
+            if (particle.kind === 'bubble') {
+                if (this.config.enableBubbles) {
+                    this.updateBubble(particle, dt, options);
+                }
+            } else if (particle.kind === 'droplet') {
+                this.updateDroplet(particle, dt);
+            } else if (!particle.updatePop(dt)) {
+                this.particles.release(particle);
+            }
+        });
+    }
+    
+    // 气泡上升、摆动并逐渐变大，到达水面时破裂
+    private updateBubble(particle: Particle, dt: number, options: Required<BubbleOptions>): void {
+        const riseHeight = Math.max(1, this.size.height - this.waterSurfaceY);
+        const risen = Math.max(0, Math.min(1, (this.size.height - particle.y) / riseHeight));
+        particle.updateBubble(dt, options.wobble * BUBBLE_WOBBLE_FREQUENCY, 1 + options.growth * risen);
+        
+        if (options.popAtSurface) {
+            const surfaceY = this.getSurfaceY(particle.x);
+            if (particle.y - particle.size <= surfaceY) {
+                this.surfaceBubble(particle, surfaceY);
+            }
+        } else if (particle.y < -particle.size) {
+            const snapshot = particle.getSnapshot();
+            this.recycleBubble(particle);
+            this.emit('bubbleRecycled', { bubble: snapshot });
+        }
+    }
+    
+    // 气泡浮出水面破裂，溅起细小的水花
+    private surfaceBubble(particle: Particle, surfaceY: number): void {
+        const snapshot = particle.getSnapshot();
+        this.particles.acquire()?.spawnPop(particle.x, surfaceY, particle.z, particle.size * 0.8, particle.opacity, BUBBLE_SURFACE_POP_DURATION);
+        
+        if (this.config.enableRipples) {
+            this.surface.disturb(particle.x, -particle.size * 0.08, particle.size * 2);
+            this.splash(particle.x, surfaceY, 2, Math.max(1, particle.size * 0.15));
+        }
+        
+        this.recycleBubble(particle);
+        this.emit('bubbleRecycled', { bubble: snapshot });
+    }
+    
+    // 水滴在重力作用下下落，落回水面时激起涟漪，点击落下的水滴还会溅起水花
+    private updateDroplet(particle: Particle, dt: number): void {
+        particle.updateDroplet(dt, DROPLET_GRAVITY);
+        
+        const surfaceY = this.getSurfaceY(particle.x);
+        if (particle.vy <= 0 || particle.y < surfaceY) return;
+        
+        if (this.config.enableRipples) {
+            this.surface.disturb(particle.x, particle.vy * (particle.splashOnImpact ? 0.012 : 0.004), particle.size * 3);
+            if (particle.splashOnImpact) {
+                this.splash(particle.x, surfaceY, 6, 2);
+            }
+        }
+        this.particles.release(particle);
+    }
+    
+    // 气泡颜色的 RGBA 分量，只在 bubbleColor 改变（修改配置、切换主题）时重新解析
+    private getBubbleRGBA(): RGBA {
+        const color = this.config.bubbleColor;
+        if (this.bubbleRGBA?.color !== color) {
+            this.bubbleRGBA = { color, rgba: parseColor(color) };
+        }
+        return this.bubbleRGBA.rgba;
+    }
+    
+    // 绘制粒子
+    private drawParticles(): void {
+        const color = this.getBubbleRGBA();
+        const highlight = this.getBubbleOptions().highlight;
+        const dropletColor = this.getRippleOptions().dropletColor;
+        
+        this.particles.forEach(particle => {
+            if (particle.kind === 'bubble') {
+                if (this.config.enableBubbles) {
+                    particle.drawBubble(this.ctx, color, highlight, this.getDepthProjection(particle.z));
+                }
+            } else if (particle.kind === 'droplet') {
+                this.ctx.fillStyle = dropletColor;
+                particle.drawDroplet(this.ctx);
+            } else {
+                particle.drawPop(this.ctx, color, this.getDepthProjection(particle.z));
+            }
+        });
+    }
+    
+    // 获取补全默认值后的鱼群配置
+    private getFishOptions(): Required<FishOptions> {
+        return { ...DEFAULT_FISH_OPTIONS, ...this.config.fish };
+    }
+    
+    // 获取补全默认值后的捕食生态模拟配置
+    private getEcosystemOptions(): Required<EcosystemOptions> {
+        return { ...DEFAULT_ECOSYSTEM_OPTIONS, ...this.config.ecosystem };
+    }
+    
+    // 鲨鱼的初始饥饿度：开启捕食生态模拟时随机分布在捕食阈值以下，使鲨鱼先后开始捕食
+    private getInitialHunger(): number {
+        const options = this.getEcosystemOptions();
+        return options.enabled ? this.random.next() * options.huntThreshold : 0;
+    }
+    
+    // 距离鱼群下一次繁殖的随机时间（秒），在平均间隔的 0.5 到 1.5 倍之间
+    private getBirthDelay(): number {
+        return this.getEcosystemOptions().breedInterval * (0.5 + this.random.next());
+    }
+    
+    // 鱼群的繁殖与重新出现：不足 schoolSize 且至少有两条鱼的鱼群定期在同伴身边繁殖一条鱼，整群被吃光的鱼群等待后在新的位置重新出现
+    private updateFishPopulation(dt: number, options: Required<FishOptions>): void {
+        const counts = this.fishSchools.map(() => 0);
+        this.fish.forEach(fish => {
+            if (fish.school < counts.length) {
+                counts[fish.school]++;
+            }
+        });
+        
+        this.fishSchools.forEach((school, index) => {
+            const count = counts[index];
+            if (count >= options.schoolSize || count === 1) return;
+            
+            school.nextBirth -= dt;
+            if (school.nextBirth > 0) return;
+            
+            if (count === 0) {
+                this.respawnFishSchool(index, options);
+            } else {
+                const members = this.fish.filter(fish => fish.school === index);
+                const parent = members[Math.floor(this.random.next() * members.length)];
+                const position = this.constrainSwimPoint(
+                    parent.x + (this.random.next() - 0.5) * options.separationDistance,
+                    parent.y + (this.random.next() - 0.5) * options.separationDistance,
+                    options.size
+                );
+                this.fish.push({
+                    school: index,
+                    x: position.x,
+                    y: position.y,
+                    vx: parent.vx,
+                    vy: parent.vy,
+                    phase: this.random.next() * Math.PI * 2
+                });
+                this.fishBorn++;
+            }
+            school.nextBirth = this.getBirthDelay();
+        });
+    }
+    
+    // 被吃光的鱼群在可游动范围内的随机位置重新出现，数量为 schoolSize 的一部分
+    private respawnFishSchool(index: number, options: Required<FishOptions>): void {
+        const school = this.fishSchools[index];
+        const center = this.constrainSwimPoint(
+            this.random.next() * this.size.width,
+            this.random.next() * this.size.height,
+            options.size,
+            options.size * 2
+        );
+        const count = Math.max(2, Math.ceil(options.schoolSize * RESPAWN_FRACTION));
+        const spread = Math.sqrt(count) * options.separationDistance;
+        const heading = this.random.next() * Math.PI * 2;
+        school.goalX = center.x / Math.max(1, this.size.width);
+        school.goalY = center.y / Math.max(1, this.size.height);
+        school.nextGoal = 0;
+        
+        for (let i = 0; i < count; i++) {
+            const position = this.constrainSwimPoint(
+                center.x + (this.random.next() - 0.5) * spread,
+                center.y + (this.random.next() - 0.5) * spread,
+                options.size
+            );
+            this.fish.push({
+                school: index,
+                x: position.x,
+                y: position.y,
+                vx: Math.cos(heading) * options.speed * 0.5,
+                vy: Math.sin(heading) * options.speed * 0.5,
+                phase: this.random.next() * Math.PI * 2
+            });
+        }
+        this.fishBorn += count;
+    }
+    
+    // 创建鱼群：每个鱼群位于随机深度，鱼在鱼群中心附近随机分布并朝同一方向游动
+    private createFish(): void {
+        const options = this.getFishOptions();
+        const spread = Math.sqrt(options.schoolSize) * options.separationDistance;
+        this.fishSchools = [];
+        this.fish = [];
+        
+        for (let i = 0; i < options.schools; i++) {
+            const center = this.constrainSwimPoint(
+                this.random.next() * this.size.width,
+                this.random.next() * this.size.height,
+                options.size,
+                options.size * 2
+            );
+            const heading = this.random.next() * Math.PI * 2;
+            this.fishSchools.push({
+                z: this.random.next(),
+                goalX: center.x / Math.max(1, this.size.width),
+                goalY: center.y / Math.max(1, this.size.height),
+                nextGoal: 0,
+                nextBirth: this.getBirthDelay()
+            });
+            
+            for (let j = 0; j < options.schoolSize; j++) {
+                const position = this.constrainSwimPoint(
+                    center.x + (this.random.next() - 0.5) * spread,
+                    center.y + (this.random.next() - 0.5) * spread,
+                    options.size
+                );
+                this.fish.push({
+                    school: i,
+                    x: position.x,
+                    y: position.y,
+                    vx: Math.cos(heading) * options.speed * 0.5,
+                    vy: Math.sin(heading) * options.speed * 0.5,
+                    phase: this.random.next() * Math.PI * 2
+                });
+            }
+        }
+    }
+    
+    // 获取所有鱼的只读快照
+    getFish(): FishSnapshot[] {
+        return this.fish.map(fish => this.createFishSnapshot(fish));
+    }
+    
+    // 生成鱼的只读快照
+    private createFishSnapshot(fish: Fish): FishSnapshot {
+        return Object.freeze({
+            school: fish.school,
+            x: fish.x,
+            y: fish.y,
+            z: this.fishSchools[fish.school]?.z ?? 0,
+            vx: fish.vx,
+            vy: fish.vy
+        });
+    }
+    
+    // 鱼群更换目标点：在可游动范围内随机选取
+    private updateFishSchools(dt: number, options: Required<FishOptions>): void {
+        this.fishSchools.forEach(school => {
+            school.nextGoal -= dt;
+            if (school.nextGoal > 0) return;
+            
+            const goal = this.constrainSwimPoint(
+                this.random.next() * this.size.width,
+                this.random.next() * this.size.height,
+                options.size,
+                options.size * 4
+            );
+            school.goalX = goal.x / Math.max(1, this.size.width);
+            school.goalY = goal.y / Math.max(1, this.size.height);
+            school.nextGoal = FISH_GOAL_INTERVAL[0] + this.random.next() * (FISH_GOAL_INTERVAL[1] - FISH_GOAL_INTERVAL[0]);
+        });
+    }
+    
+    // 按网格划分鱼的位置，邻居只需在相邻的九个格子中查找
+    private buildFishGrid(cellSize: number): Map<number, Fish[]> {
+        const grid: Map<number, Fish[]> = new Map();
+        const columns = Math.ceil(this.size.width / cellSize) + 2;
+        this.fish.forEach(fish => {
+            const key = this.getFishCell(fish.x, fish.y, cellSize, columns);
+            const cell = grid.get(key);
+            if (cell) {
+                cell.push(fish);
+            } else {
+                grid.set(key, [fish]);
+            }
+        });
+        return grid;
+    }
+    
+    // 位置所在的网格编号，画布外的位置归入边缘的格子
+    private getFishCell(x: number, y: number, cellSize: number, columns: number): number {
+        const column = Math.max(0, Math.min(columns - 1, Math.floor(x / cellSize) + 1));
+        const row = Math.max(0, Math.floor(y / cellSize) + 1);
+        return row * columns + column;
+    }
+    
+    // 更新鱼群：对齐、聚集、分离三条 boids 规则，叠加游向鱼群目标点、躲避鲨鱼和指针以及停留在可游动范围内
+    private updateFish(dt: number): void {
+        if (dt <= 0) return;
+        
+        const options = this.getFishOptions();
+        if (this.getEcosystemOptions().enabled) {
+            this.updateFishPopulation(dt, options);
+        }
+        if (this.fish.length === 0) return;
+        
+        this.updateFishSchools(dt, options);
+        
+        const radius = Math.max(1, options.neighborRadius);
+        const columns = Math.ceil(this.size.width / radius) + 2;
+        const grid = this.buildFishGrid(radius);
+        const threats = this.sharks.map(shark => ({ x: shark.x, y: shark.y, z: shark.z }));
+        const agility = Math.min(1, dt * FISH_AGILITY);
+        
+        this.fish.forEach(fish => {
+            const school = this.fishSchools[fish.school];
+            if (!school) return;
+            
+            const projection = this.getDepthProjection(school.z);
+            const maxSpeed = options.speed * projection.scale;
+            let alignX = 0;
+            let alignY = 0;
+            let centerX = 0;
+            let centerY = 0;
+            let separationX = 0;
+            let separationY = 0;
+            let count = 0;
+            
+            const column = Math.floor(fish.x / radius) + 1;
+            const row = Math.floor(fish.y / radius) + 1;
+            for (let dy = -1; dy <= 1; dy++) {
+                for (let dx = -1; dx <= 1; dx++) {
+                    const cell = grid.get(this.getFishCell((column + dx - 1) * radius, (row + dy - 1) * radius, radius, columns));
+                    cell?.forEach(other => {
+                        if (other === fish || other.school !== fish.school) return;
+                        
+                        const offsetX = fish.x - other.x;
+                        const offsetY = fish.y - other.y;
+                        const distance = Math.hypot(offsetX, offsetY);
+                        if (distance >= radius) return;
+                        
+                        count++;
+                        alignX += other.vx;
+                        alignY += other.vy;
+                        centerX += other.x;
+                        centerY += other.y;
+                        if (distance > 0 && distance < options.separationDistance) {
+                            const strength = 1 - distance / options.separationDistance;
+                            separationX += offsetX / distance * strength;
+                            separationY += offsetY / distance * strength;
+                        }
+                    });
+                }
+            }
+            
+            let desiredX = fish.vx;
+            let desiredY = fish.vy;
+            if (count > 0) {
+                desiredX += (alignX / count - fish.vx) * options.alignment;
+                desiredY += (alignY / count - fish.vy) * options.alignment;
+                desiredX += (centerX / count - fish.x) * FISH_COHESION_RATE * options.cohesion;
+                desiredY += (centerY / count - fish.y) * FISH_COHESION_RATE * options.cohesion;
+            }
+            desiredX += separationX * maxSpeed * options.separation;
+            desiredY += separationY * maxSpeed * options.separation;
+            
+            const goalX = school.goalX * this.size.width - fish.x;
+            const goalY = school.goalY * this.size.height - fish.y;
+            const goalDistance = Math.hypot(goalX, goalY);
+            if (goalDistance > 1) {
+                desiredX += goalX / goalDistance * maxSpeed * FISH_GOAL_WEIGHT;
+                desiredY += goalY / goalDistance * maxSpeed * FISH_GOAL_WEIGHT;
+            }
+            
+            // 躲避附近同一深度范围内的鲨鱼和指针，越近逃得越快
+            let fear = 0;
+            const flee = (x: number, y: number) => {
+                const offsetX = fish.x - x;
+                const offsetY = fish.y - y;
+                const distance = Math.hypot(offsetX, offsetY);
+                if (distance >= options.scatterDistance || distance < 1e-6) return;
+                
+                const strength = 1 - distance / options.scatterDistance;
+                desiredX += offsetX / distance * maxSpeed * FISH_SCATTER_WEIGHT * strength;
+                desiredY += offsetY / distance * maxSpeed * FISH_SCATTER_WEIGHT * strength;
+                fear = Math.max(fear, strength);
+            };
+            threats.forEach(threat => {
+                if (Math.abs(threat.z - school.z) <= FISH_THREAT_DEPTH) {
+                    flee(threat.x, threat.y);
+                }
+            });
+            if (this.isMouseInCanvas) {
+                flee(this.mouseX - projection.offsetX, this.mouseY);
+            }
+            
+            // 前方即将超出可游动范围时转回
+            const aheadX = fish.x + fish.vx * FISH_LOOKAHEAD;
+            const aheadY = fish.y + fish.vy * FISH_LOOKAHEAD;
+            const inside = this.constrainSwimPoint(aheadX, aheadY, options.size, options.size * 2);
+            desiredX += (inside.x - aheadX) * FISH_BOUNDS_RATE;
+            desiredY += (inside.y - aheadY) * FISH_BOUNDS_RATE;
+            
+            fish.vx += (desiredX - fish.vx) * agility;
+            fish.vy += (desiredY - fish.vy) * agility;
+            
+            const speed = Math.hypot(fish.vx, fish.vy);
+            const limit = maxSpeed * (1 + fear * (FISH_SCATTER_BOOST - 1));
+            const clamped = Math.max(maxSpeed * FISH_MIN_SPEED, Math.min(limit, speed));
+            if (speed > 1e-6) {
+                fish.vx *= clamped / speed;
+                fish.vy *= clamped / speed;
+            }
+            
+            const position = this.constrainSwimPoint(fish.x + fish.vx * dt, fish.y + fish.vy * dt, options.size);
+            fish.x = position.x;
+            fish.y = position.y;
+            // 游得越快尾巴摆动越快
+            fish.phase = (fish.phase + dt * (6 + 10 * clamped / Math.max(1, maxSpeed))) % (Math.PI * 2);
+        });
+    }
+    
+    // 绘制鱼群：由远及近逐个鱼群绘制，远处的鱼更小、颜色更接近背景
+    private drawFish(): void {
+        if (this.fish.length === 0) return;
+        
+        const options = this.getFishOptions();
+        const order = this.fishSchools.map((school, index) => index).sort((a, b) => this.fishSchools[b].z - this.fishSchools[a].z);
+        const projections = this.fishSchools.map(school => this.getDepthProjection(school.z));
+        const fills = this.getFishFills(options, projections.map(projection => projection.fog));
+        const length = options.size;
+        
+        order.forEach(index => {
+            const projection = projections[index];
+            this.ctx.fillStyle = fills[index];
+            
+            this.fish.forEach(fish => {
+                if (fish.school !== index) return;
+                
+                const facing = fish.vx < 0 ? -1 : 1;
+                const pitch = Math.atan2(fish.vy, Math.abs(fish.vx));
+                const wag = Math.sin(fish.phase) * length * 0.12;
+                
+                this.ctx.save();
+                this.ctx.translate(fish.x + projection.offsetX, fish.y);
+                this.ctx.rotate(pitch * facing);
+                this.ctx.scale(facing * projection.scale, projection.scale);
+                
+                this.ctx.beginPath();
+                this.ctx.ellipse(0, 0, length * 0.5, length * 0.22, 0, 0, Math.PI * 2);
+                this.ctx.fill();
+                
+                this.ctx.beginPath();
+                this.ctx.moveTo(-length * 0.4, 0);
+                this.ctx.lineTo(-length * 0.75, -length * 0.22 + wag);
+                this.ctx.lineTo(-length * 0.75, length * 0.22 + wag);
+                this.ctx.closePath();
+                this.ctx.fill();
+                
+                this.ctx.restore();
+            });
+        });
+    }
+    
+    // 每个鱼群雾化后的填充色，只在鱼的颜色、背景渐变或鱼群雾化程度改变时重新混合
+    private getFishFills(options: Required<FishOptions>, fogs: number[]): string[] {
+        const colors = options.colors.length > 0 ? options.colors : DEFAULT_FISH_OPTIONS.colors;
+        const { colors: gradientColors = [], stops = [] } = this.config.backgroundGradient;
+        const key = [colors.join(), gradientColors.join(), stops.join(), this.config.waterLevel, fogs.join()].join('|');
+        if (this.fishFills?.key !== key) {
+            // 只有需要雾化时才采样背景渐变
+            let fogColor: string | null = null;
+            this.fishFills = {
+                key,
+                fills: fogs.map((fog, index) => {
+                    const color = colors[index % colors.length];
+                    return fog > 0 ? mixColors(color, fogColor ??= this.getFogColor(), fog) : color;
+                })
+            };
+        }
+        return this.fishFills.fills;
+    }
+    
+    // 绘制海洋背景
+    private drawBackground(): void {
+        if (!this.config.enableBackground) return;
+        
+        const gradient = this.ctx.createLinearGradient(0, 0, 0, this.size.height);
+        const { colors, stops } = this.config.backgroundGradient;
+        
+        if (colors) {
+            colors.forEach((color, index) => {
+                const stop = (stops && stops[index] !== undefined) ? stops[index] : index / (colors.length - 1);
+                gradient.addColorStop(stop, color);
+            });
+        }
+        
+        this.ctx.fillStyle = gradient;
+        this.ctx.fillRect(0, 0, this.size.width, this.size.height);
+    }
+    
+    // 获取补全默认值后的海床配置
+    private getSeabedOptions(): Required<SeabedOptions> {
+        return { ...DEFAULT_SEABED_OPTIONS, ...this.config.seabed };
+    }
+    
+    // 程序生成海床：沙丘地形、岩石、海草和珊瑚
+    private createSeabed(): void {
+        if (!this.config.enableSeabed) {
+            this.seabed = null;
+            return;
+        }
+        
+        const options = this.getSeabedOptions();
+        const countFor = (density: number) => Math.round(Math.max(0, density) * this.size.width / 100);
+        
+        const dunes: SeabedDune[] = [
+            { frequency: options.dunes, amplitude: 1, phase: this.random.next() * Math.PI * 2 },
+            { frequency: options.dunes * 2.3, amplitude: 0.35, phase: this.random.next() * Math.PI * 2 },
+            { frequency: options.dunes * 5.1, amplitude: 0.12, phase: this.random.next() * Math.PI * 2 }
+        ];
+        
+        const rocks = Array.from({ length: countFor(options.rockDensity) }, (): SeabedRock => ({
+            x: this.random.next(),
+            width: 20 + this.random.next() * 30,
+            height: 10 + this.random.next() * 14,
+            tilt: (this.random.next() - 0.5) * 0.4
+        }));
+        
+        const kelp = Array.from({ length: countFor(options.kelpDensity) }, (): SeabedKelp => ({
+            x: this.random.next(),
+            height: 0.12 + this.random.next() * 0.18,
+            width: 3 + this.random.next() * 3,
+            segments: 8 + Math.floor(this.random.next() * 5),
+            phase: this.random.next() * Math.PI * 2
+        }));
+        
+        const corals = Array.from({ length: countFor(options.coralDensity) }, (): SeabedCoral => {
+            const branchCount = 3 + Math.floor(this.random.next() * 4);
+            return {
+                x: this.random.next(),
+                size: 15 + this.random.next() * 20,
+                colorIndex: Math.floor(this.random.next() * 1000),
+                branches: Array.from({ length: branchCount }, (_, i): SeabedCoralBranch => ({
+                    angle: (i / Math.max(1, branchCount - 1) - 0.5) * 1.6 + (this.random.next() - 0.5) * 0.2,
+                    length: 0.5 + this.random.next() * 0.5,
+                    fork: 0.3 + this.random.next() * 0.3
+                }))
+            };
+        });
+        
+        this.seabed = { dunes, rocks, kelp, corals };
+    }
+    
+    // 获取 x 处海床表面的纵坐标，未启用海床时为画布底部
+    private getSeabedY(x: number): number {
+        if (!this.seabed) return this.size.height;
+        
+        const height = this.getSeabedOptions().height * this.size.height;
+        const t = x / Math.max(1, this.size.width);
+        let profile = 0;
+        let total = 0;
+        this.seabed.dunes.forEach(dune => {
+            profile += Math.sin(t * dune.frequency * Math.PI * 2 + dune.phase) * dune.amplitude;
+            total += dune.amplitude;
+        });
+        profile = total > 0 ? profile / total : 0;
+        
+        return this.size.height - height * (0.6 + 0.4 * profile);
+    }
+    
+    // 绘制海床：沙丘、岩石，以及随洋流摆动的海草和珊瑚
+    private drawSeabed(): void {
+        if (!this.seabed) return;
+        
+        const options = this.getSeabedOptions();
+        const colors = this.getSeabedColors(options);
+        const top = this.size.height * (1 - options.height);
+        const time = this.simulationTime / 1000;
+        
+        const sand = this.ctx.createLinearGradient(0, top, 0, this.size.height);
+        sand.addColorStop(0, colors.sandTop);
+        sand.addColorStop(1, colors.sandBottom);
+        
+        this.ctx.beginPath();
+        this.ctx.moveTo(0, this.size.height);
+        const step = this.waveSampleStep * 2;
+        for (let x = 0; x <= this.size.width + step; x += step) {
+            this.ctx.lineTo(x, this.getSeabedY(x));
+        }
+        this.ctx.lineTo(this.size.width, this.size.height);
+        this.ctx.closePath();
+        this.ctx.fillStyle = sand;
+        this.ctx.fill();
+        
+        this.seabed.kelp.forEach(kelp => {
+            this.drawKelp(kelp, options, colors, time);
+        });
+        
+        this.seabed.rocks.forEach(rock => {
+            this.drawRock(rock, colors);
+        });
+        
+        this.seabed.corals.forEach(coral => {
+            this.drawCoral(coral, options, colors, time);
+        });
+    }
+    
+    // 海床颜色，只在配置中的颜色改变时重新派生
+    private getSeabedColors(options: Required<SeabedOptions>): SeabedColors {
+        const coralColors = options.coralColors.length > 0 ? options.coralColors : DEFAULT_SEABED_OPTIONS.coralColors;
+        const key = [options.sandColor, options.rockColor, options.kelpColor, ...coralColors].join('|');
+        if (this.seabedColors?.key !== key) {
+            this.seabedColors = {
+                key,
+                sandTop: lightenColor(options.sandColor, 8),
+                sandBottom: mixColors(options.sandColor, '#000000', 0.4),
+                rock: options.rockColor,
+                rockHighlight: lightenColor(options.rockColor, 15),
+                kelp: options.kelpColor,
+                kelpLeaf: lightenColor(options.kelpColor, 10),
+                corals: coralColors.map(color => ({ branch: color, polyp: lightenColor(color, 20) }))
+            };
+        }
+        return this.seabedColors;
+    }
+    
+    // 绘制岩石：半埋在沙中的椭圆，顶部带高光
+    private drawRock(rock: SeabedRock, colors: SeabedColors): void {
+        const x = rock.x * this.size.width;
+        const y = this.getSeabedY(x) + rock.height * 0.35;
+        
+        this.ctx.beginPath();
+        this.ctx.ellipse(x, y, rock.width / 2, rock.height, rock.tilt, Math.PI, Math.PI * 2);
+        this.ctx.closePath();
+        this.ctx.fillStyle = colors.rock;
+        this.ctx.fill();
+        
+        this.ctx.beginPath();
+        this.ctx.ellipse(x - rock.width * 0.1, y - rock.height * 0.55, rock.width * 0.22, rock.height * 0.18, rock.tilt, 0, Math.PI * 2);
+        this.ctx.fillStyle = colors.rockHighlight;
+        this.ctx.fill();
+    }
+    
+    // 绘制海草：逐节向上生长，越靠近顶端随洋流摆动越明显
+    private drawKelp(kelp: SeabedKelp, options: Required<SeabedOptions>, colors: SeabedColors, time: number): void {
+        let x = kelp.x * this.size.width;
+        let y = this.getSeabedY(x) + 2;
+        const segmentLength = kelp.height * this.size.height / kelp.segments;
+        let angle = -Math.PI / 2;
+        
+        this.ctx.lineCap = 'round';
+        this.ctx.strokeStyle = colors.kelp;
+        
+        for (let i = 0; i < kelp.segments; i++) {
+            const progress = i / kelp.segments;
+            angle += Math.sin(time * 1.2 + kelp.phase + i * 0.45) * 0.09 * options.current * progress;
+            
+            const nextX = x + Math.cos(angle) * segmentLength;
+            const nextY = y + Math.sin(angle) * segmentLength;
+            
+            this.ctx.lineWidth = kelp.width * (1 - progress * 0.6);
+            this.ctx.beginPath();
+            this.ctx.moveTo(x, y);
+            this.ctx.lineTo(nextX, nextY);
+            this.ctx.stroke();
+            
+            // 每隔一节在左右两侧交替长出叶片
+            if (i % 2 === 1) {
+                const side = i % 4 === 1 ? 1 : -1;
+                this.ctx.beginPath();
+                this.ctx.ellipse(nextX, nextY, segmentLength * 0.6, kelp.width * 0.6, angle + side * 0.7, 0, Math.PI * 2);
+                this.ctx.fillStyle = colors.kelpLeaf;
+                this.ctx.fill();
+            }
+            
+            x = nextX;
+            y = nextY;
+        }
+        
+        this.ctx.lineCap = 'butt';
+    }
+    
+    // 绘制珊瑚：从底部散开的分枝，末端分叉并带有珊瑚虫圆点
+    private drawCoral(coral: SeabedCoral, options: Required<SeabedOptions>, colors: SeabedColors, time: number): void {
+        const color = colors.corals[coral.colorIndex % colors.corals.length];
+        const baseX = coral.x * this.size.width;
+        const baseY = this.getSeabedY(baseX) + 2;
+        const sway = Math.sin(time * 0.8 + coral.x * 20) * 0.04 * options.current;
+        
+        this.ctx.lineCap = 'round';
+        this.ctx.strokeStyle = color.branch;
+        this.ctx.fillStyle = color.polyp;
+        
+        coral.branches.forEach(branch => {
+            const angle = branch.angle + sway - Math.PI / 2;
+            const length = coral.size * branch.length;
+            const midX = baseX + Math.cos(angle) * length;
+            const midY = baseY + Math.sin(angle) * length;
+            
+            this.ctx.lineWidth = Math.max(1.5, coral.size * 0.12);
+            this.ctx.beginPath();
+            this.ctx.moveTo(baseX, baseY);
+            this.ctx.lineTo(midX, midY);
+            this.ctx.stroke();
+            
+            this.ctx.lineWidth = Math.max(1, coral.size * 0.08);
+            [-branch.fork, branch.fork].forEach(offset => {
+                const tipX = midX + Math.cos(angle + offset) * length * 0.5;
+                const tipY = midY + Math.sin(angle + offset) * length * 0.5;
+                
+                this.ctx.beginPath();
+                this.ctx.moveTo(midX, midY);
+                this.ctx.lineTo(tipX, tipY);
+                this.ctx.stroke();
+                
+                this.ctx.beginPath();
+                this.ctx.arc(tipX, tipY, Math.max(1, coral.size * 0.07), 0, Math.PI * 2);
+                this.ctx.fill();
+            });
+        });
         
-        // 默认配置
-        this.config = {
-            sharkCount: options.sharkCount || 1,
-            sharkSize: options.sharkSize || 40,
-            sharkSpeed: options.sharkSpeed || 3,
-            waveCount: options.waveCount || 3,
-            bubbleCount: options.bubbleCount || 30,
-            enableBubbles: options.enableBubbles !== false,
-            waterLevel: options.waterLevel || 0.2,
-            autoMoveInterval: options.autoMoveInterval || 3000,
-            enableBackground: options.enableBackground !== false,
-            enableMouseFollow: options.enableMouseFollow !== false,
-            backgroundGradient: {
-                colors: options.backgroundGradient?.colors || ['#1a2980', '#26d0ce', '#1a6d80'],
-                stops: options.backgroundGradient?.stops || [0, options.waterLevel || 0.2, 1]
+        this.ctx.lineCap = 'butt';
+    }
+    
+    // 注册内置绘制层
+    private createBuiltInLayers(): void {
+        const layers: Record<keyof typeof BUILT_IN_LAYERS, Omit<OceanLayer, 'id'>> = {
+            background: {
+                draw: () => this.drawBackground()
             },
-            waveColors: options.waveColors || [
-                'rgba(0, 50, 100, 0.6)',
-                'rgba(0, 80, 150, 0.5)',
-                'rgba(0, 120, 200, 0.4)',
-                'rgba(0, 150, 220, 0.3)',
-                'rgba(0, 180, 240, 0.2)'
-            ],
-            ...options
+            seabed: {
+                draw: () => this.drawSeabed()
+            },
+            waves: {
+                update: dt => {
+                    this.updateWaves(dt);
+                    this.updateSurface(dt);
+                },
+                draw: () => this.drawWaves()
+            },
+            bubbles: {
+                update: dt => this.updateParticles(dt),
+                draw: () => this.drawParticles()
+            },
+            fish: {
+                update: dt => this.updateFish(dt),
+                draw: () => this.drawFish()
+            },
+            sharks: {
+                update: dt => this.updateSharks(dt),
+                draw: () => this.drawSharks()
+            }
         };
         
-        // 初始化变量
-        this.mouseX = this.canvas.width / 2;
-        this.mouseY = this.canvas.height / 2;
-        
-        // 绑定事件
-        this.bindEvents();
+        (Object.keys(BUILT_IN_LAYERS) as (keyof typeof BUILT_IN_LAYERS)[]).forEach(id => {
+            this.layers.push({
+                layer: { id, ...layers[id] },
+                zIndex: BUILT_IN_LAYERS[id],
+                enabled: true,
+                builtIn: true,
+                order: this.nextLayerOrder++,
+                updateTime: 0,
+                drawTime: 0
+            });
+        });
+    }
+    
+    // 添加自定义绘制层，id 已存在时抛出错误
+    addLayer(layer: OceanLayer): void {
+        if (this.layers.some(entry => entry.layer.id === layer.id)) {
+            throw new Error(`OceanWorld layer '${layer.id}' already exists`);
+        }
         
-        // 初始化
-        this.init();
+        this.layers.push({
+            layer,
+            zIndex: layer.zIndex ?? 0,
+            enabled: layer.enabled !== false,
+            builtIn: false,
+            order: this.nextLayerOrder++,
+            updateTime: 0,
+            drawTime: 0
+        });
+        this.sortLayers();
     }
     
-    // 初始化画布尺寸
-    private initCanvasSize(): void {
-        this.canvas.width = this.canvas.offsetWidth;
-        this.canvas.height = this.canvas.offsetHeight;
-        this.waterSurfaceY = this.canvas.height * this.config.waterLevel;
+    // 移除自定义绘制层，内置层不能移除（可用 setLayerEnabled 停用）
+    removeLayer(id: string): boolean {
+        const index = this.layers.findIndex(entry => entry.layer.id === id && !entry.builtIn);
+        if (index === -1) return false;
+        
+        this.layers.splice(index, 1);
+        return true;
     }
     
-    // 绑定事件
-    private bindEvents(): void {
-        // 窗口大小改变时调整画布
-        window.addEventListener('resize', () => {
-            this.initCanvasSize();
-        });
-
-        // 只有在启用鼠标跟随时才绑定鼠标/触摸事件
-        if (this.config.enableMouseFollow) {
-            let isMouseOver = false;
-            const hasTouch = 'ontouchstart' in window || 
-                            navigator.maxTouchPoints > 0;
-            
-            if(hasTouch){
-                // 触摸移动事件
-                document.addEventListener('touchmove', (e) => {
-                    e.preventDefault();
-                    const rect = this.canvas.getBoundingClientRect();
-                    const touch = e.touches[0];
-                    const isInside = touch.clientX >= rect.left && touch.clientX <= rect.right &&
-                        touch.clientY >= rect.top && touch.clientY <= rect.bottom;
-                        
-                    if (isInside) {
-                        if (!isMouseOver) {
-                            isMouseOver = true;
-                            this.isMouseInCanvas = true;
-                        }
-                        this.handlePointerMove(touch.clientX, touch.clientY);
-                    } else if (isMouseOver) {
-                        isMouseOver = false;
-                        this.isMouseInCanvas = false;
-                        this.handlePointerLeave();
-                    }
-                });
-            } else {
-                // 鼠标移动事件
-                document.addEventListener('mousemove', (e) => {
-                    const rect = this.canvas.getBoundingClientRect();
-                    const isInside = e.clientX >= rect.left && e.clientX <= rect.right &&
-                        e.clientY >= rect.top && e.clientY <= rect.bottom;
-                        
-                    if (isInside) {
-                        if (!isMouseOver) {
-                            isMouseOver = true;
-                            this.isMouseInCanvas = true;
-                        }
-                        this.handlePointerMove(e.clientX, e.clientY);
-                    } else if (isMouseOver) {
-                        isMouseOver = false;
-                        this.isMouseInCanvas = false;
-                        this.handlePointerLeave();
-                    }
-                });
-            }
+    // 启用或停用绘制层（包括内置层）
+    setLayerEnabled(id: string, enabled: boolean): boolean {
+        const entry = this.layers.find(entry => entry.layer.id === id);
+        if (!entry) return false;
+        
+        entry.enabled = enabled;
+        if (!enabled) {
+            entry.updateTime = 0;
+            entry.drawTime = 0;
         }
+        return true;
     }
-
-    // 处理指针移动
-    private handlePointerMove(clientX: number, clientY: number): void {
-        const rect = this.canvas.getBoundingClientRect();
-        this.mouseX = clientX - rect.left;
-        this.mouseY = clientY - rect.top;
-
-        if (this.isMouseInCanvas && this.config.enableMouseFollow) {
-            this.sharks.forEach(shark => {
-                shark.isFollowingMouse = true;
-                shark.targetX = this.mouseX;
-                shark.targetY = this.mouseY;
-            });
-        }
+    
+    // 调整绘制层的顺序（包括内置层）
+    setLayerZIndex(id: string, zIndex: number): boolean {
+        const entry = this.layers.find(entry => entry.layer.id === id);
+        if (!entry) return false;
+        
+        entry.zIndex = zIndex;
+        this.sortLayers();
+        return true;
     }
-
-    // 处理指针离开
-    private handlePointerLeave(): void {
-        this.sharks.forEach(shark => {
-            shark.isFollowingMouse = false;
-            this.setRandomTarget(shark);
-        });
+    
+    // 获取所有绘制层，按绘制顺序排列
+    getLayers(): OceanLayerInfo[] {
+        return this.layers.map(entry => Object.freeze({
+            id: entry.layer.id,
+            zIndex: entry.zIndex,
+            enabled: entry.enabled,
+            builtIn: entry.builtIn
+        }));
     }
     
-    // 设置随机目标点
-    private setRandomTarget(shark: Shark): void {
-        const margin = shark.size * 2;
-        shark.targetX = margin + Math.random() * (this.canvas.width - margin * 2);
-        shark.targetY = margin + Math.random() * (this.canvas.height - margin * 2);
-        shark.nextMoveTime = Date.now() + Math.random() * this.config.autoMoveInterval + 1000;
+    // 按 zIndex 排序，相同时按注册顺序
+    private sortLayers(): void {
+        this.layers.sort((a, b) => a.zIndex - b.zIndex || a.order - b.order);
     }
     
-    // 初始化海洋世界
-    private init(): void {
-        this.initCanvasSize();
-        this.createWaves();
-        this.createSharks();
-        if (this.config.enableBubbles) {
-            this.createBubbles();
-        }
-        this.start();
+    // 生成传给绘制层的只读世界状态
+    private createWorldState(dt: number): OceanWorldState {
+        return Object.freeze({
+            width: this.size.width,
+            height: this.size.height,
+            pixelRatio: this.pixelRatio,
+            waterLevel: this.config.waterLevel,
+            waterSurfaceY: this.waterSurfaceY,
+            time: this.simulationTime,
+            delta: dt,
+            paused: this.paused,
+            sharks: Object.freeze(this.sharks.map(shark => this.createSharkSnapshot(shark))),
+            fish: Object.freeze(this.fish.map(fish => this.createFishSnapshot(fish))),
+            selectedSharkId: this.selectedSharkId,
+            pointer: this.isMouseInCanvas ? Object.freeze({ x: this.mouseX, y: this.mouseY }) : null
+        });
     }
     
-    // 创建海浪
-    private createWaves(): void {
-        this.waves = [];
+    // 依次更新所有启用的绘制层，再依次绘制；自定义层抛出的错误不会中断动画
+    private renderLayers(dt: number): void {
+        // 遍历副本，允许在层的回调中增删绘制层
+        const layers = this.layers.filter(entry => entry.enabled);
+        const hasCustomLayers = layers.some(entry => !entry.builtIn);
         
-        for (let i = 0; i < this.config.waveCount; i++) {
-            const colorIndex = i % this.config.waveColors.length;
-            const wave: Wave = {
-                y: this.waterSurfaceY + i * 15,
-                amplitude: 10 + i * 5,
-                frequency: 0.01 + i * 0.005,
-                speed: 0.02 + i * 0.01,
-                color: this.config.waveColors[colorIndex],
-                time: 0
-            };
-            this.waves.push(wave);
-        }
+        // 内置层不读取世界状态，只有存在自定义层时才生成
+        let world = hasCustomLayers ? this.createWorldState(dt) : null;
+        layers.forEach(entry => {
+            if (entry.layer.update) {
+                this.runLayer(entry, 'update', () => entry.layer.update?.(dt, world as OceanWorldState));
+            }
+        });
+        
+        world = hasCustomLayers ? this.createWorldState(dt) : null;
+        layers.forEach(entry => {
+            if (entry.layer.draw) {
+                this.runLayer(entry, 'draw', () => entry.layer.draw?.(this.ctx, world as OceanWorldState));
+            }
+        });
     }
     
-    // 创建鲨鱼
-    private createSharks(): void {
-        this.sharks = [];
-        const now = Date.now();
+    // 执行绘制层的回调并统计耗时：自定义层在独立的画布状态中执行，并捕获其错误
+    private runLayer(entry: LayerEntry, phase: 'update' | 'draw', callback: () => void): void {
+        const start = performance.now();
         
-        for (let i = 0; i < this.config.sharkCount; i++) {
-            const shark: Shark = {
-                x: Math.random() * this.canvas.width,
-                y: Math.random() * (this.canvas.height - 100) + 50,
-                size: this.config.sharkSize,
-                speed: this.config.sharkSpeed,
-                angle: 0,
-                tailAngle: 0,
-                tailDirection: 1,
-                targetX: this.canvas.width / 2,
-                targetY: this.canvas.height / 2,
-                color: `hsl(${Math.random() * 60}, 70%, 40%)`,
-                isFollowingMouse: false,
-                autoMoveTimer: 0,
-                nextMoveTime: now + Math.random() * this.config.autoMoveInterval
-            };
-            this.sharks.push(shark);
+        if (entry.builtIn) {
+            callback();
+        } else {
+            this.ctx.save();
+            try {
+                callback();
+            } catch (error) {
+                console.error(`Error in OceanWorld layer '${entry.layer.id}' ${phase}:`, error);
+            }
+            this.ctx.restore();
+        }
+        
+        const elapsed = performance.now() - start;
+        if (phase === 'update') {
+            entry.updateTime += (elapsed - entry.updateTime) * STATS_SMOOTHING;
+        } else {
+            entry.drawTime += (elapsed - entry.drawTime) * STATS_SMOOTHING;
         }
     }
     
-    // 创建气泡
-    private createBubbles(): void {
-        this.bubbles = [];
-        for (let i = 0; i < this.config.bubbleCount; i++) {
-            this.bubbles.push(new Bubble(this.canvas));
+    // 监听事件，返回取消监听的函数
+    on<K extends keyof OceanWorldEventMap>(type: K, listener: OceanWorldEventListener<K>): () => void {
+        let set = this.listeners.get(type);
+        if (!set) {
+            set = new Set();
+            this.listeners.set(type, set);
         }
+        set.add(listener);
+        return () => this.off(type, listener);
     }
     
-    // 添加鲨鱼
-    addShark(): void {
-        const now = Date.now();
-        const shark: Shark = {
-            x: Math.random() * this.canvas.width,
-            y: Math.random() * (this.canvas.height - 100) + 50,
-            size: this.config.sharkSize,
-            speed: this.config.sharkSpeed,
-            angle: 0,
-            tailAngle: 0,
-            tailDirection: 1,
-            targetX: this.canvas.width / 2,
-            targetY: this.canvas.height / 2,
-            color: `hsl(${Math.random() * 60}, 70%, 40%)`,
-            isFollowingMouse: this.isMouseInCanvas && this.config.enableMouseFollow,
-            autoMoveTimer: 0,
-            nextMoveTime: now + Math.random() * this.config.autoMoveInterval
-        };
-        this.sharks.push(shark);
+    // 取消监听事件
+    off<K extends keyof OceanWorldEventMap>(type: K, listener: OceanWorldEventListener<K>): void {
+        this.listeners.get(type)?.delete(listener);
     }
     
-    // 移除鲨鱼
-    removeShark(): void {
-        if (this.sharks.length > 0) {
-            this.sharks.pop();
+    // 触发事件，单个监听函数抛出的异常不会中断动画循环
+    private emit<K extends keyof OceanWorldEventMap>(type: K, event: OceanWorldEventMap[K]): void {
+        if (STATIC_REDRAW_EVENTS.has(type)) {
+            this.invalidate();
         }
+        
+        const set = this.listeners.get(type);
+        if (!set || set.size === 0) return;
+        
+        [...set].forEach(listener => {
+            try {
+                listener(event);
+            } catch (error) {
+                console.error(`Error in OceanWorld '${type}' listener:`, error);
+            }
+        });
     }
     
-    // 改变鲨鱼速度
-    changeSharkSpeed(): void {
-        this.config.sharkSpeed = 2 + Math.random() * 4;
-        this.sharks.forEach(shark => {
-            shark.speed = this.config.sharkSpeed;
-        });
+    // 推进模拟时钟，返回本帧的模拟时间步长（秒）
+    private advanceClock(timestamp: number): number {
+        if (this.lastFrameTime === null) {
+            this.lastFrameTime = timestamp;
+            this.frameElapsed = 0;
+            return 0;
+        }
+        
+        const elapsed = Math.min(Math.max(timestamp - this.lastFrameTime, 0) / 1000, MAX_FRAME_DELTA);
+        this.lastFrameTime = timestamp;
+        this.frameElapsed = elapsed;
+        
+        if (this.paused) return 0;
+        
+        const dt = elapsed * this.timeScale * this.getMotionSpeed();
+        this.simulationTime += dt * 1000;
+        return dt;
     }
     
-    // 切换气泡显示
-    toggleBubbles(): void {
-        this.config.enableBubbles = !this.config.enableBubbles;
-        if (this.config.enableBubbles && this.bubbles.length === 0) {
-            this.createBubbles();
+    // 动画循环：画布不可见时不再请求下一帧，静态模式下只绘制当前状态
+    private animate(timestamp: number): void {
+        this.animationId = null;
+        const isStatic = this.isStaticMotion();
+        if (isStatic) {
+            this.lastFrameTime = null;
+        }
+        
+        const dt = this.renderFrame(timestamp);
+        if (!isStatic) {
+            this.scheduleFrame();
         }
+        this.emit('frame', { time: this.simulationTime, delta: dt });
     }
     
-    // 切换背景显示
-    toggleBackground(): void {
-        this.config.enableBackground = !this.config.enableBackground;
+    // 请求下一帧，已停止、已请求或画布不可见时忽略
+    private scheduleFrame(): void {
+        if (!this.running || this.destroyed || this.animationId !== null) return;
+        if (this.config.pauseWhenHidden && !this.visible) return;
+        this.animationId = requestAnimationFrame(time => this.animate(time));
     }
     
-    // 设置背景渐变
-    setBackgroundGradient(colors: string[], stops?: number[]): void {
-        this.config.backgroundGradient.colors = colors;
-        if (stops) {
-            this.config.backgroundGradient.stops = stops;
+    // 动画循环停止后（静态模式或不可见）重新开始请求帧，丢弃停止期间的时间间隔，从停止处继续
+    private resumeFrames(): void {
+        if (this.animationId !== null) return;
+        this.lastFrameTime = null;
+        this.scheduleFrame();
+    }
+    
+    // 取消已请求的下一帧
+    private cancelFrame(): void {
+        if (this.animationId !== null) {
+            cancelAnimationFrame(this.animationId);
+            this.animationId = null;
         }
     }
     
-    // 设置海浪颜色
-    setWaveColors(colors: string[]): void {
-        this.config.waveColors = colors;
-        this.createWaves();
+    // 静态模式下请求重绘一帧
+    private invalidate(): void {
+        if (this.isStaticMotion()) {
+            this.scheduleFrame();
+        }
     }
     
-    // 添加海浪颜色
-    addWaveColor(color: string): void {
-        this.config.waveColors.push(color);
-        this.createWaves();
+    // 推进并绘制一帧，返回本帧的模拟时间步长（秒）
+    private renderFrame(timestamp: number): number {
+        const frameStart = performance.now();
+        const dt = this.advanceClock(timestamp);
+        
+        // 在清空画布前调整画质，像素比变化导致的画布重置不会丢失已绘制的画面
+        this.updateAdaptiveQuality();
+        
+        this.ctx.setTransform(this.pixelRatio, 0, 0, this.pixelRatio, 0, 0);
+        this.ctx.clearRect(0, 0, this.size.width, this.size.height);
+        
+        // 主题过渡属于表现层，使用不受暂停与时间缩放影响的真实时间
+        this.updateThemeTransition(this.frameElapsed);
+        this.updateParallax(this.frameElapsed);
+        
+        this.renderLayers(dt);
+        this.recordFrameStats(performance.now() - frameStart);
+        return dt;
     }
     
-    // 移除海浪颜色
-    removeWaveColor(index: number): void {
-        if (index >= 0 && index < this.config.waveColors.length) {
-            this.config.waveColors.splice(index, 1);
-            this.createWaves();
-        }
+    // 记录本帧耗时与帧间隔，并计入自适应画质的统计窗口
+    private recordFrameStats(frameTime: number): void {
+        this.frameTime += (frameTime - this.frameTime) * STATS_SMOOTHING;
+        if (this.frameElapsed <= 0) return;
+        
+        this.frameInterval += (this.frameElapsed - this.frameInterval) * STATS_SMOOTHING;
+        this.qualitySample.elapsed += this.frameElapsed;
+        this.qualitySample.frames++;
+        this.qualitySample.total += frameTime;
     }
     
-    // 清空海浪颜色并设置新颜色
-    clearAndSetWaveColors(colors: string[]): void {
-        this.config.waveColors = [...colors];
-        this.createWaves();
+    // 获取运行时性能统计
+    getStats(): OceanStats {
+        return {
+            fps: this.frameInterval > 0 ? 1 / this.frameInterval : 0,
+            frameTime: this.frameTime,
+            layers: this.layers.map(entry => ({
+                id: entry.layer.id,
+                update: entry.updateTime,
+                draw: entry.drawTime
+            })),
+            qualityLevel: this.qualityLevel,
+            pixelRatio: this.pixelRatio,
+            sharkCount: this.sharks.length,
+            particleCount: this.particles.getActiveCount(),
+            fishCount: this.fish.length
+        };
     }
     
-    // 获取当前海浪颜色
-    getWaveColors(): string[] {
-        return [...this.config.waveColors];
+    // 获取补全默认值后的自适应画质配置
+    private getAdaptiveQualityOptions(): Required<AdaptiveQualityOptions> {
+        return { ...DEFAULT_ADAPTIVE_QUALITY_OPTIONS, ...this.config.adaptiveQuality };
     }
     
-    // 重置海洋世界
-    reset(): void {
-        this.sharks = [];
-        this.bubbles = [];
-        this.createSharks();
-        if (this.config.enableBubbles) {
-            this.createBubbles();
-        }
+    // 获取当前画质等级的渲染参数
+    private getQualitySettings(): OceanQualitySettings {
+        return QUALITY_LEVELS[this.qualityLevel];
     }
     
-    // 切换鼠标跟随
-    toggleMouseFollow(): void {
-        this.config.enableMouseFollow = !this.config.enableMouseFollow;
+    // 按时间窗口统计平均帧耗时：超出预算时降低一级画质，持续低于预算的一半时恢复一级
+    private updateAdaptiveQuality(): void {
+        const options = this.getAdaptiveQualityOptions();
+        const sample = this.qualitySample;
+        if (!options.enabled || sample.elapsed < QUALITY_SAMPLE_INTERVAL) return;
         
-        if (!this.config.enableMouseFollow) {
-            this.sharks.forEach(shark => {
-                shark.isFollowingMouse = false;
-                this.setRandomTarget(shark);
-            });
+        const average = sample.total / sample.frames;
+        const maxLevel = Math.max(0, Math.min(QUALITY_LEVELS.length - 1, options.maxLevel));
+        const elapsed = sample.elapsed;
+        sample.elapsed = 0;
+        sample.frames = 0;
+        sample.total = 0;
+        
+        if (average > options.frameBudget && this.qualityLevel < maxLevel) {
+            this.applyQualityLevel(this.qualityLevel + 1);
+        } else if (average < options.frameBudget * QUALITY_HEADROOM && this.qualityLevel > 0) {
+            sample.headroom += elapsed;
+            if (sample.headroom >= QUALITY_RESTORE_DELAY) {
+                this.applyQualityLevel(this.qualityLevel - 1);
+            }
+        } else {
+            sample.headroom = 0;
         }
     }
     
-    // 设置鼠标跟随
-    setMouseFollow(enabled: boolean): void {
-        this.config.enableMouseFollow = enabled;
+    // 切换画质等级：重新应用像素比、海浪采样间隔和环境气泡数量
+    private applyQualityLevel(level: number): void {
+        const previousLevel = this.qualityLevel;
+        this.qualitySample = { elapsed: 0, frames: 0, total: 0, headroom: 0 };
+        if (level === previousLevel) return;
         
-        if (!enabled) {
-            this.sharks.forEach(shark => {
-                shark.isFollowingMouse = false;
-                this.setRandomTarget(shark);
-            });
+        this.qualityLevel = level;
+        const settings = this.getQualitySettings();
+        this.waveSampleStep = settings.waveSampleStep;
+        this.applySize(this.size.width, this.size.height, this.devicePixelRatio);
+        if (this.config.enableBubbles) {
+            this.syncAmbientBubbles();
         }
+        this.emit('qualityChanged', { level, previousLevel, settings });
     }
     
-    // 更新海浪
-    private updateWaves(): void {
-        this.waves.forEach(wave => {
-            wave.time += wave.speed;
-        });
+    // 获取当前画质等级，0 为最高
+    getQualityLevel(): number {
+        return this.qualityLevel;
     }
     
-    // 绘制海浪
-    private drawWaves(): void {
-        this.waves.forEach(wave => {
-            this.ctx.beginPath();
-            this.ctx.moveTo(0, wave.y);
-            
-            for (let x = 0; x < this.canvas.width; x += 5) {
-                const y = wave.y + Math.sin(x * wave.frequency + wave.time) * wave.amplitude;
-                this.ctx.lineTo(x, y);
-            }
-            
-            this.ctx.lineTo(this.canvas.width, this.canvas.height);
-            this.ctx.lineTo(0, this.canvas.height);
-            this.ctx.closePath();
-            
-            this.ctx.fillStyle = wave.color;
-            this.ctx.fill();
-        });
+    // 手动设置画质等级（0-4）；启用自适应画质时控制器会在此基础上继续调整
+    setQualityLevel(level: number): void {
+        this.applyQualityLevel(Math.max(0, Math.min(QUALITY_LEVELS.length - 1, Math.round(level))));
     }
     
-    // 更新鲨鱼
-    private updateSharks(): void {
-        const now = Date.now();
-        
-        this.sharks.forEach(shark => {
-            if (this.isMouseInCanvas && shark.isFollowingMouse && this.config.enableMouseFollow) {
-                shark.targetX = this.mouseX;
-                shark.targetY = this.mouseY;
-            } else {
-                shark.isFollowingMouse = false;
-                
-                if (now >= shark.nextMoveTime) {
-                    this.setRandomTarget(shark);
-                }
-            }
-            
-            const dx = shark.targetX - shark.x;
-            const dy = shark.targetY - shark.y;
-            
-            shark.angle = Math.atan2(dy, dx);
-            
-            const distance = Math.sqrt(dx * dx + dy * dy);
-            if (distance > 5) {
-                shark.x += Math.cos(shark.angle) * shark.speed;
-                shark.y += Math.sin(shark.angle) * shark.speed;
-                
-                shark.x = Math.max(shark.size, Math.min(this.canvas.width - shark.size, shark.x));
-                shark.y = Math.max(shark.size, Math.min(this.canvas.height - shark.size, shark.y));
-            }
-            
-            shark.tailAngle += 0.2 * shark.tailDirection;
-            if (Math.abs(shark.tailAngle) > 0.5) {
-                shark.tailDirection *= -1;
-            }
-        });
+    // 开始动画
+    start(): void {
+        if (this.destroyed) return;
+        this.running = true;
+        this.cancelFrame();
+        this.lastFrameTime = null;
+        this.animate(performance.now());
     }
-
-    // 绘制鲨鱼
-    private drawSharks(): void {
-        this.sharks.forEach(shark => {
-            this.ctx.save();
-            this.ctx.translate(shark.x, shark.y);
-            
-            const isMovingLeft = Math.cos(shark.angle) < 0;
-            
-            if (isMovingLeft) {
-                this.ctx.scale(-1, 1);
-            }
-            
-            this.drawRealisticShark(this.ctx, shark.size, shark.tailAngle);
-            
-            this.ctx.restore();
-        });
+    
+    // 停止动画
+    stop(): void {
+        this.running = false;
+        this.cancelFrame();
     }
-
-    /**
-     * 绘制逼真的鲨鱼形状
-     */
-    private drawRealisticShark(
-        ctx: CanvasRenderingContext2D, 
-        size: number, 
-        tailAngle: number
-    ): void {
-        const darkBlue = '#36387f';
-        const mediumBlue = '#36379b';
-        const black = '#2b2b40';
-        const white = '#eef0ff';
+    
+    // 暂停模拟（动画循环继续运行，但模拟时间冻结）
+    pause(): void {
+        this.paused = true;
+    }
+    
+    // 恢复模拟
+    resume(): void {
+        this.paused = false;
+    }
+    
+    // 是否处于暂停状态
+    isPaused(): boolean {
+        return this.paused;
+    }
+    
+    // 设置时间缩放：小于1为慢动作，大于1为快进
+    setTimeScale(scale: number): void {
+        if (!Number.isFinite(scale) || scale < 0) {
+            throw new Error(`Invalid time scale: ${scale}`);
+        }
+        this.timeScale = scale;
+    }
+    
+    // 获取时间缩放
+    getTimeScale(): number {
+        return this.timeScale;
+    }
+    
+    // 获取模拟时间（毫秒）
+    getSimulationTime(): number {
+        return this.simulationTime;
+    }
+    
+    // 更新配置
+    updateConfig(newConfig: Partial<OceanWorldOptions>): void {
+        const oldWaveColors = [...this.config.waveColors];
+        const oldRipples = this.config.ripples;
+        const oldBubbles = this.config.bubbles;
+        const oldSeabed = this.config.seabed;
+        const oldDepth = this.config.depth;
+        const oldAdaptiveQuality = this.config.adaptiveQuality;
+        const oldReducedMotion = this.config.reducedMotion;
+        const oldSteering = this.config.steering;
+        const oldBehavior = this.config.behavior;
+        const oldSwimZones = this.config.swimZones;
+        const oldFish = this.config.fish;
+        const oldEcosystem = this.config.ecosystem;
         
-        this.drawSharkBodyRealistic(ctx, size, mediumBlue, white);
-        this.drawSharkTailRealistic(ctx, size, tailAngle, mediumBlue, white);
-        this.drawDorsalFinRealistic(ctx, size, darkBlue);
-        this.drawPectoralFinsRealistic(ctx, size, mediumBlue, white);
-        this.drawSharkHeadRealistic(ctx, size, white, black, mediumBlue);
-        this.drawSecondaryFinsRealistic(ctx, size, mediumBlue, darkBlue, white);
-    }
-
-    /**
-     * 绘制逼真的鲨鱼身体
-     */
-    private drawSharkBodyRealistic(
-        ctx: CanvasRenderingContext2D, 
-        size: number, 
-        mediumBlue: string, 
-        white: string
-    ): void {
-        ctx.fillStyle = mediumBlue;
-        ctx.beginPath();
+        if (newConfig.theme !== undefined) {
+            this.startThemeTransition(newConfig.theme, 0);
+        }
         
-        ctx.moveTo(size * 0.9, 0);
+        if (newConfig.backgroundGradient || newConfig.waveColors || newConfig.bubbleColor || newConfig.sharkAppearance) {
+            this.themeTransition = null;
+        }
         
-        ctx.bezierCurveTo(
-            size * 0.7, -size * 0.25,
-            size * 0.3, -size * 0.35,
-            -size * 0.2, -size * 0.3
-        );
+        this.config = { ...this.config, ...newConfig };
         
-        ctx.bezierCurveTo(
-            -size * 0.6, -size * 0.25,
-            -size * 0.8, -size * 0.15,
-            -size * 1.0, -size * 0.1
-        );
+        if (newConfig.maxPixelRatio !== undefined) {
+            this.initCanvasSize();
+        }
         
-        ctx.lineTo(-size * 1.0, size * 0.05);
+        if (newConfig.waterLevel !== undefined) {
+            this.waterSurfaceY = this.size.height * this.config.waterLevel;
+        }
         
-        ctx.bezierCurveTo(
-            -size * 0.8, size * 0.1,
-            -size * 0.6, size * 0.15,
-            -size * 0.2, size * 0.2
-        );
+        if (newConfig.waveCount !== undefined || newConfig.waterLevel !== undefined || newConfig.waves !== undefined) {
+            this.createWaves();
+        }
         
-        ctx.bezierCurveTo(
-            size * 0.3, size * 0.18,
-            size * 0.7, size * 0.1,
-            size * 0.9, size * 0.05
-        );
+        if (newConfig.seed !== undefined) {
+            this.random.seed(this.config.seed);
+        }
         
-        ctx.closePath();
-        ctx.fill();
+        if (newConfig.sharkCount !== undefined) {
+            this.createSharks();
+        }
         
-        const bellyGradient = ctx.createLinearGradient(0, -size * 0.05, 0, size * 0.3);
-        bellyGradient.addColorStop(0, mediumBlue);
-        bellyGradient.addColorStop(0.2, '#5a5ab5');
-        bellyGradient.addColorStop(0.4, '#8a8acf');
-        bellyGradient.addColorStop(0.6, '#b5b5e6');
-        bellyGradient.addColorStop(0.8, '#d5d5f0');
-        bellyGradient.addColorStop(1, white);
+        if (newConfig.enableBubbles !== undefined) {
+            if (this.config.enableBubbles && !this.hasAmbientBubbles()) {
+                this.createBubbles();
+            }
+        }
         
-        ctx.fillStyle = bellyGradient;
-        ctx.beginPath();
+        if (newConfig.backgroundGradient) {
+            this.config.backgroundGradient = {
+                ...this.config.backgroundGradient,
+                ...newConfig.backgroundGradient
+            };
+        }
         
-        ctx.moveTo(size * 0.8, size * 0.05);
+        if (newConfig.ripples) {
+            this.config.ripples = { ...oldRipples, ...newConfig.ripples };
+            this.resetSurface();
+        }
         
-        ctx.bezierCurveTo(
-            size * 0.6, -size * 0.1,
-            size * 0.3, -size * 0.15,
-            -size * 0.1, -size * 0.1
-        );
+        if (newConfig.enableRipples === false) {
+            this.resetSurface();
+        }
         
-        ctx.bezierCurveTo(
-            -size * 0.5, -size * 0.05,
-            -size * 0.7, size * 0.05,
-            -size * 0.9, size * 0.1
-        );
+        if (newConfig.bubbles) {
+            this.config.bubbles = { ...oldBubbles, ...newConfig.bubbles };
+            this.particles.setCapacity(this.getBubbleOptions().maxParticles);
+        }
         
-        ctx.bezierCurveTo(
-            -size * 0.7, size * 0.2,
-            -size * 0.5, size * 0.25,
-            -size * 0.2, size * 0.28
-        );
+        if (newConfig.seabed) {
+            this.config.seabed = { ...oldSeabed, ...newConfig.seabed };
+        }
         
-        ctx.bezierCurveTo(
-            size * 0.3, size * 0.25,
-            size * 0.6, size * 0.15,
-            size * 0.8, size * 0.05
-        );
+        if (newConfig.depth) {
+            this.config.depth = { ...oldDepth, ...newConfig.depth };
+        }
         
-        ctx.closePath();
-        ctx.fill();
+        // 关闭自适应画质时恢复最高画质，降低允许的最低画质时立即生效
+        if (newConfig.adaptiveQuality) {
+            this.config.adaptiveQuality = { ...oldAdaptiveQuality, ...newConfig.adaptiveQuality };
+            const options = this.getAdaptiveQualityOptions();
+            if (!options.enabled) {
+                this.applyQualityLevel(0);
+            } else if (this.qualityLevel > options.maxLevel) {
+                this.setQualityLevel(options.maxLevel);
+            }
+        }
         
-        const highlightGradient = ctx.createLinearGradient(0, 0, 0, size * 0.25);
-        highlightGradient.addColorStop(0, '#ffffff');
-        highlightGradient.addColorStop(0.5, 'rgba(255, 255, 255, 0.7)');
-        highlightGradient.addColorStop(1, 'rgba(255, 255, 255, 0.3)');
+        if (newConfig.reducedMotion) {
+            this.config.reducedMotion = { ...oldReducedMotion, ...newConfig.reducedMotion };
+        }
         
-        ctx.fillStyle = highlightGradient;
-        ctx.beginPath();
+        if (newConfig.steering) {
+            this.config.steering = { ...oldSteering, ...newConfig.steering };
+        }
         
-        ctx.moveTo(size * 0.7, size * 0.08);
-        ctx.bezierCurveTo(
-            size * 0.5, size * 0.1,
-            size * 0.2, size * 0.12,
-            -size * 0.1, size * 0.15
-        );
-        ctx.bezierCurveTo(
-            -size * 0.3, size * 0.18,
-            -size * 0.5, size * 0.2,
-            -size * 0.7, size * 0.18
-        );
-        ctx.bezierCurveTo(
-            -size * 0.5, size * 0.15,
-            -size * 0.3, size * 0.12,
-            -size * 0.1, size * 0.1
-        );
-        ctx.bezierCurveTo(
-            size * 0.2, size * 0.08,
-            size * 0.5, size * 0.08,
-            size * 0.7, size * 0.08
-        );
+        if (newConfig.behavior) {
+            this.config.behavior = { ...oldBehavior, ...newConfig.behavior };
+        }
         
-        ctx.closePath();
-        ctx.fill();
-    }
-
-    /**
-     * 绘制逼真的鲨鱼尾巴
-     */
-    private drawSharkTailRealistic(
-        ctx: CanvasRenderingContext2D, 
-        size: number, 
-        tailAngle: number, 
-        mediumBlue: string,
-        white: string
-    ): void {
-        ctx.fillStyle = mediumBlue;
+        // 鱼群数量或规模变化时重新生成鱼群，其余参数在更新和绘制时读取
+        if (newConfig.fish) {
+            this.config.fish = { ...oldFish, ...newConfig.fish };
+            if (newConfig.fish.schools !== undefined || newConfig.fish.schoolSize !== undefined) {
+                this.createFish();
+            }
+        }
         
-        ctx.beginPath();
-        ctx.moveTo(-size * 0.9, -size * 0.1);
-        ctx.lineTo(-size * 1.5, -size * 0.4 + tailAngle * 6);
-        ctx.lineTo(-size * 1.2, -size * 0.05);
-        ctx.closePath();
-        ctx.fill();
+        // 开启捕食生态模拟时打乱各鲨鱼的饥饿度，避免同时开始捕食
+        if (newConfig.ecosystem) {
+            const wasEnabled = oldEcosystem.enabled === true;
+            this.config.ecosystem = { ...oldEcosystem, ...newConfig.ecosystem };
+            if (!wasEnabled && this.getEcosystemOptions().enabled) {
+                this.sharks.forEach(shark => {
+                    shark.hunger = this.getInitialHunger();
+                });
+            }
+        }
         
-        const tailGradient = ctx.createLinearGradient(-size * 1.0, 0, -size * 1.5, size * 0.3);
-        tailGradient.addColorStop(0, mediumBlue);
-        tailGradient.addColorStop(0.4, '#8a8acf');
-        tailGradient.addColorStop(0.7, '#d5d5f0');
-        tailGradient.addColorStop(1, white);
+        if (newConfig.swimZones) {
+            this.config.swimZones = { ...oldSwimZones, ...newConfig.swimZones };
+            if (newConfig.swimZones.breachInterval !== undefined) {
+                this.sharks.forEach(shark => {
+                    shark.nextBreach = this.getBreachDelay();
+                });
+            }
+        }
         
-        ctx.fillStyle = tailGradient;
-        ctx.beginPath();
-        ctx.moveTo(-size * 0.9, size * 0.1);
-        ctx.lineTo(-size * 1.5, size * 0.3 + tailAngle * 6);
-        ctx.lineTo(-size * 1.2, size * 0.05);
-        ctx.closePath();
-        ctx.fill();
+        // 可能从静态模式或不可见状态切换为继续播放
+        if (newConfig.reducedMotion || newConfig.pauseWhenHidden !== undefined) {
+            this.resumeFrames();
+        }
         
-        ctx.fillStyle = mediumBlue;
-        ctx.beginPath();
-        ctx.moveTo(-size * 0.9, -size * 0.08);
-        ctx.lineTo(-size * 1.1, 0);
-        ctx.lineTo(-size * 0.9, size * 0.08);
-        ctx.closePath();
-        ctx.fill();
+        // 颜色和洋流在绘制时读取，只有影响布局的配置才需要重新生成海床
+        const seabedLayoutKeys: (keyof SeabedOptions)[] = ['height', 'dunes', 'rockDensity', 'kelpDensity', 'coralDensity'];
+        if (newConfig.enableSeabed !== undefined ||
+            (newConfig.seabed && seabedLayoutKeys.some(key => newConfig.seabed?.[key] !== undefined))) {
+            this.createSeabed();
+        }
         
-        const tailBaseGradient = ctx.createLinearGradient(-size * 0.9, 0, -size * 1.1, size * 0.08);
-        tailBaseGradient.addColorStop(0, mediumBlue);
-        tailBaseGradient.addColorStop(0.7, white);
+        if (newConfig.sharkAppearance) {
+            this.config.sharkAppearance = {
+                ...this.config.sharkAppearance,
+                ...newConfig.sharkAppearance
+            };
+        }
         
-        ctx.fillStyle = tailBaseGradient;
-        ctx.beginPath();
-        ctx.moveTo(-size * 0.9, size * 0.05);
-        ctx.lineTo(-size * 1.1, size * 0.08);
-        ctx.lineTo(-size * 0.9, size * 0.08);
-        ctx.closePath();
-        ctx.fill();
-    }
-
-    /**
-     * 绘制逼真的背鳍
-     */
-    private drawDorsalFinRealistic(
-        ctx: CanvasRenderingContext2D, 
-        size: number, 
-        darkBlue: string
-    ): void {
-        ctx.fillStyle = darkBlue;
-        ctx.beginPath();
-        ctx.moveTo(-size * 0.1, -size * 0.3);
-        ctx.lineTo(-size * 0.3, -size * 0.5);
-        ctx.lineTo(-size * 0.5, -size * 0.25);
-        ctx.closePath();
-        ctx.fill();
+        if (newConfig.sharkVariants && newConfig.sharkCount === undefined) {
+            this.sharks.forEach((shark, index) => {
+                shark.appearance = this.getSharkVariant(index);
+            });
+        }
         
-        ctx.strokeStyle = this.lightenColor(darkBlue, 20);
-        ctx.lineWidth = 2;
-        ctx.beginPath();
-        ctx.moveTo(-size * 0.1, -size * 0.3);
-        ctx.lineTo(-size * 0.3, -size * 0.5);
-        ctx.stroke();
+        if (newConfig.waveColors && JSON.stringify(newConfig.waveColors) !== JSON.stringify(oldWaveColors)) {
+            this.createWaves();
+        }
+        
+        // 更新鼠标跟随配置时重新绑定事件
+        if (newConfig.enableMouseFollow !== undefined) {
+            this.applyMouseFollow(this.config.enableMouseFollow);
+        }
+        
+        this.emit('configChanged', { changes: newConfig });
     }
-
-    /**
-     * 绘制逼真的胸鳍
-     */
-    private drawPectoralFinsRealistic(
-        ctx: CanvasRenderingContext2D, 
-        size: number, 
-        mediumBlue: string,
-        white: string
-    ): void {
-        const finGradient = ctx.createLinearGradient(size * 0.2, 0, size * 0.6, size * 0.3);
-        finGradient.addColorStop(0, mediumBlue);
-        finGradient.addColorStop(0.3, '#8a8acf');
-        finGradient.addColorStop(0.6, '#d5d5f0');
-        finGradient.addColorStop(1, white);
+    
+    // 是否已销毁
+    isDestroyed(): boolean {
+        return this.destroyed;
+    }
+    
+    // 销毁实例：停止动画、解绑所有事件并释放场景数据，可重复调用
+    destroy(): void {
+        if (this.destroyed) return;
+        this.destroyed = true;
         
-        ctx.fillStyle = finGradient;
-        ctx.beginPath();
-        ctx.moveTo(size * 0.2, size * 0.05);
-        ctx.lineTo(size * 0.6, size * 0.2);
-        ctx.lineTo(size * 0.3, size * 0.3);
-        ctx.closePath();
-        ctx.fill();
+        this.stop();
+        this.unbindEvents();
+        this.isMouseInCanvas = false;
         
-        ctx.beginPath();
-        ctx.moveTo(size * 0.2, -size * 0.05);
-        ctx.lineTo(size * 0.6, -size * 0.2);
-        ctx.lineTo(size * 0.3, -size * 0.3);
-        ctx.closePath();
-        ctx.fill();
+        this.sharks = [];
+        this.fishSchools = [];
+        this.fish = [];
+        this.fishEaten = 0;
+        this.fishBorn = 0;
+        this.waves = [];
+        this.particles.clear();
+        this.seabed = null;
+        this.selectedSharkId = null;
+        this.clearSharkCaches();
+        this.listeners.clear();
+        this.layers = this.layers.filter(entry => entry.builtIn);
+        
+        this.ctx.setTransform(1, 0, 0, 1, 0, 0);
+        this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+        this.context = null;
+    }
+}
+
+// 粒子：气泡、水滴和破裂动画共用同一结构，由粒子池复用
+class Particle {
+    active: boolean = false;
+    kind: ParticleKind = 'bubble';
+    source: BubbleSource = 'ambient';
+    x: number = 0;
+    y: number = 0;
+    /** 水平速度（像素/秒） */
+    vx: number = 0;
+    /** 竖直速度（像素/秒），气泡为上升速度 */
+    vy: number = 0;
+    /** 当前尺寸 */
+    size: number = 0;
+    /** 气泡初始尺寸 */
+    baseSize: number = 0;
+    opacity: number = 0;
+    /** 气泡摆动相位 */
+    phase: number = 0;
+    /** 深度（0 为最近，1 为最远） */
+    z: number = 0;
+    /** 破裂动画已播放时长与总时长（秒） */
+    age: number = 0;
+    life: number = 0;
+    /** 水滴入水时是否再溅起水花 */
+    splashOnImpact: boolean = false;
+    
+    // 作为气泡发射
+    spawnBubble(source: BubbleSource, x: number, y: number, size: number, speed: number, opacity: number, phase: number, z: number): void {
+        this.activate('bubble', x, y, 0, speed);
+        this.z = z;
+        this.source = source;
+        this.size = size;
+        this.baseSize = size;
+        this.opacity = opacity;
+        this.phase = phase;
+    }
+    
+    // 作为水滴发射
+    spawnDroplet(x: number, y: number, vx: number, vy: number, size: number, splashOnImpact: boolean): void {
+        this.activate('droplet', x, y, vx, vy);
+        this.size = size;
+        this.splashOnImpact = splashOnImpact;
+    }
+    
+    // 作为破裂动画发射
+    spawnPop(x: number, y: number, z: number, size: number, opacity: number, duration: number): void {
+        this.activate('pop', x, y, 0, 0);
+        this.z = z;
+        this.size = size;
+        this.opacity = opacity;
+        this.life = duration;
+    }
+    
+    // 从序列化状态恢复气泡
+    restoreBubble(state: BubbleState): void {
+        this.spawnBubble(state.source, state.x, state.y, state.size, state.speed, state.opacity, state.phase, state.z);
+    }
+    
+    private activate(kind: ParticleKind, x: number, y: number, vx: number, vy: number): void {
+        this.active = true;
+        this.kind = kind;
+        this.source = 'ambient';
+        this.x = x;
+        this.y = y;
+        this.vx = vx;
+        this.vy = vy;
+        this.age = 0;
+        this.life = 0;
+        this.phase = 0;
+        this.z = 0;
+        this.splashOnImpact = false;
+    }
+    
+    // 气泡上升并左右摆动，growth 为相对初始尺寸的缩放
+    updateBubble(dt: number, wobbleSpeed: number, growth: number): void {
+        this.phase += BUBBLE_WOBBLE_FREQUENCY * dt;
+        this.y -= this.vy * dt;
+        this.x += (Math.cos(this.phase) * wobbleSpeed + this.vx) * dt;
+        this.vx *= Math.max(0, 1 - dt * 3);
+        this.size = this.baseSize * growth;
+    }
+    
+    // 水滴在重力作用下运动
+    updateDroplet(dt: number, gravity: number): void {
+        this.vy += gravity * dt;
+        this.x += this.vx * dt;
+        this.y += this.vy * dt;
+    }
+    
+    // 推进破裂动画，动画结束时返回 false
+    updatePop(dt: number): boolean {
+        this.age += dt;
+        return this.age < this.life;
+    }
+    
+    // 获取气泡只读快照
+    getSnapshot(): BubbleSnapshot {
+        return { source: this.source, x: this.x, y: this.y, z: this.z, size: this.size, opacity: this.opacity };
+    }
+    
+    // 获取气泡可序列化的完整状态
+    getState(): BubbleState {
+        return {
+            source: this.source,
+            x: this.x,
+            y: this.y,
+            size: this.baseSize,
+            speed: this.vy,
+            opacity: this.opacity,
+            phase: this.phase,
+            z: this.z
+        };
+    }
+    
+    // 判断画布上的点是否在按深度投影后的粒子内
+    contains(x: number, y: number, tolerance: number, projection: DepthProjection): boolean {
+        return Math.hypot(x - this.x - projection.offsetX, y - this.y) <= this.size * projection.scale + tolerance;
+    }
+    
+    // 画布尺寸变化时按比例缩放位置
+    rescale(scaleX: number, scaleY: number): void {
+        this.x *= scaleX;
+        this.y *= scaleY;
     }
-
-    /**
-     * 绘制逼真的鲨鱼头部
-     */
-    private drawSharkHeadRealistic(
-        ctx: CanvasRenderingContext2D, 
-        size: number, 
-        white: string, 
-        black: string,
-        mediumBlue: string
-    ): void {
-        ctx.fillStyle = black;
-        ctx.beginPath();
-        ctx.arc(size * 0.6, -size * 0.15, size * 0.04, 0, Math.PI * 2);
-        ctx.fill();
+    
+    // 绘制气泡：半透明的泡体、较亮的边缘和左上角的高光
+    // 远处的气泡更小、更淡
+    drawBubble(ctx: OceanRenderingContext, color: RGBA, highlight: boolean, projection: DepthProjection): void {
+        const x = this.x + projection.offsetX;
+        const size = this.size * projection.scale;
+        const opacity = this.opacity * (1 - projection.fog);
         
-        ctx.fillStyle = white;
         ctx.beginPath();
-        ctx.arc(size * 0.62, -size * 0.16, size * 0.01, 0, Math.PI * 2);
+        ctx.arc(x, this.y, size, 0, Math.PI * 2);
+        
+        if (!highlight) {
+            ctx.fillStyle = formatColor({ ...color, a: color.a * opacity });
+            ctx.fill();
+            return;
+        }
+        
+        ctx.fillStyle = formatColor({ ...color, a: color.a * opacity * 0.35 });
         ctx.fill();
+        ctx.strokeStyle = formatColor({ ...color, a: color.a * opacity });
+        ctx.lineWidth = Math.max(0.5, size * 0.12);
+        ctx.stroke();
         
-        ctx.fillStyle = mediumBlue;
         ctx.beginPath();
-        ctx.moveTo(size * 0.9, 0);
-        ctx.lineTo(size * 0.8, -size * 0.1);
-        ctx.lineTo(size * 0.8, size * 0.1);
-        ctx.closePath();
+        ctx.arc(x - size * 0.35, this.y - size * 0.35, size * 0.25, 0, Math.PI * 2);
+        ctx.fillStyle = formatColor({ r: 255, g: 255, b: 255, a: Math.min(1, opacity * 1.2) });
         ctx.fill();
-        
-        const noseGradient = ctx.createLinearGradient(size * 0.8, 0, size * 0.9, size * 0.1);
-        noseGradient.addColorStop(0, mediumBlue);
-        noseGradient.addColorStop(0.7, white);
-        
-        ctx.fillStyle = noseGradient;
+    }
+    
+    // 绘制水滴，填充色由调用方设置
+    drawDroplet(ctx: OceanRenderingContext): void {
         ctx.beginPath();
-        ctx.moveTo(size * 0.85, size * 0.02);
-        ctx.lineTo(size * 0.8, size * 0.08);
-        ctx.lineTo(size * 0.8, -size * 0.02);
-        ctx.closePath();
+        ctx.arc(this.x, this.y, this.size, 0, Math.PI * 2);
         ctx.fill();
+    }
+    
+    // 绘制破裂动画：扩散的圆环和向四周飞溅的水珠
+    drawPop(ctx: OceanRenderingContext, color: RGBA, projection: DepthProjection): void {
+        const dropletCount = 6;
+        const x = this.x + projection.offsetX;
+        const size = this.size * projection.scale;
+        const progress = Math.min(this.age / this.life, 1);
+        const alpha = this.opacity * (1 - projection.fog) * (1 - progress);
+        const radius = size * (1 + progress * 0.8);
+        const fill = formatColor({ ...color, a: color.a * alpha });
         
-        ctx.strokeStyle = black;
-        ctx.lineWidth = 1.5;
+        ctx.strokeStyle = fill;
+        ctx.lineWidth = Math.max(1, size * 0.15 * (1 - progress));
         ctx.beginPath();
-        ctx.moveTo(size * 0.7, size * 0.05);
-        ctx.bezierCurveTo(
-            size * 0.5, size * 0.15,
-            size * 0.3, size * 0.12,
-            size * 0.2, size * 0.08
-        );
+        ctx.arc(x, this.y, radius, 0, Math.PI * 2);
         ctx.stroke();
         
-        const gillGradient = ctx.createLinearGradient(size * 0.3, -size * 0.05, size * 0.8, size * 0.05);
-        gillGradient.addColorStop(0, mediumBlue);
-        gillGradient.addColorStop(0.3, '#5a5ab5');
-        gillGradient.addColorStop(0.7, '#b5b5e6');
-        gillGradient.addColorStop(1, white);
-        
-        ctx.strokeStyle = gillGradient;
-        ctx.lineWidth = 1.2;
-        for (let i = 0; i < 5; i++) {
-            ctx.beginPath();
-            ctx.arc(size * 0.3 + i * size * 0.1, 0, size * 0.03, 0.2 * Math.PI, 0.8 * Math.PI);
-            ctx.stroke();
-        }
-        
-        ctx.fillStyle = black;
-        for (let i = 0; i < 2; i++) {
+        ctx.fillStyle = fill;
+        for (let i = 0; i < dropletCount; i++) {
+            const angle = (i / dropletCount) * Math.PI * 2;
+            const distance = radius + size * progress;
             ctx.beginPath();
-            ctx.arc(size * 0.8, size * 0.02 + i * size * 0.03, 1.5, 0, Math.PI * 2);
+            ctx.arc(
+                x + Math.cos(angle) * distance,
+                this.y + Math.sin(angle) * distance,
+                Math.max(0.5, size * 0.12 * (1 - progress)),
+                0,
+                Math.PI * 2
+            );
             ctx.fill();
         }
-        
-        const chinGradient = ctx.createLinearGradient(size * 0.2, size * 0.08, size * 0.7, size * 0.05);
-        chinGradient.addColorStop(0, mediumBlue);
-        chinGradient.addColorStop(0.3, '#8a8acf');
-        chinGradient.addColorStop(0.7, '#d5d5f0');
-        chinGradient.addColorStop(1, white);
-        
-        ctx.fillStyle = chinGradient;
-        ctx.beginPath();
-        ctx.moveTo(size * 0.7, size * 0.05);
-        ctx.bezierCurveTo(
-            size * 0.6, size * 0.08,
-            size * 0.4, size * 0.1,
-            size * 0.2, size * 0.08
-        );
-        ctx.bezierCurveTo(
-            size * 0.4, size * 0.06,
-            size * 0.6, size * 0.04,
-            size * 0.7, size * 0.05
-        );
-        ctx.closePath();
-        ctx.fill();
     }
+}
 
-    /**
-     * 绘制次要鳍
-     */
-    private drawSecondaryFinsRealistic(
-        ctx: CanvasRenderingContext2D, 
-        size: number, 
-        mediumBlue: string, 
-        darkBlue: string,
-        white: string
-    ): void {
-        ctx.fillStyle = darkBlue;
-        ctx.beginPath();
-        ctx.moveTo(-size * 0.7, -size * 0.25);
-        ctx.lineTo(-size * 0.8, -size * 0.35);
-        ctx.lineTo(-size * 0.9, -size * 0.2);
-        ctx.closePath();
-        ctx.fill();
-        
-        const analFinGradient = ctx.createLinearGradient(-size * 0.7, size * 0.15, -size * 0.9, size * 0.25);
-        analFinGradient.addColorStop(0, mediumBlue);
-        analFinGradient.addColorStop(0.3, '#8a8acf');
-        analFinGradient.addColorStop(0.7, '#d5d5f0');
-        analFinGradient.addColorStop(1, white);
-        
-        ctx.fillStyle = analFinGradient;
-        ctx.beginPath();
-        ctx.moveTo(-size * 0.7, size * 0.15);
-        ctx.lineTo(-size * 0.8, size * 0.25);
-        ctx.lineTo(-size * 0.9, size * 0.1);
-        ctx.closePath();
-        ctx.fill();
-    }
+// 粒子池：复用粒子对象，避免频繁创建和回收
+class ParticlePool {
+    private particles: Particle[] = [];
+    private free: Particle[] = [];
+    private capacity: number;
 
-    /**
-     * 工具函数：变亮颜色
-     */
-    private lightenColor(color: string, percent: number): string {
-        const num = parseInt(color.slice(1), 16);
-        const amt = Math.round(2.55 * percent);
-        const R = Math.min(255, (num >> 16) + amt);
-        const G = Math.min(255, (num >> 8 & 0x00FF) + amt);
-        const B = Math.min(255, (num & 0x0000FF) + amt);
-        return "#" + ((1 << 24) + (R << 16) + (G << 8) + B).toString(16).slice(1);
+    constructor(capacity: number) {
+        this.capacity = Math.max(0, capacity);
+    }
+    
+    // 修改容量，缩小时丢弃多余的粒子
+    setCapacity(capacity: number): void {
+        this.capacity = Math.max(0, capacity);
+        if (this.particles.length > this.capacity) {
+            this.particles.length = this.capacity;
+            this.free = this.particles.filter(particle => !particle.active);
+        }
     }
     
-    // 更新气泡
-    private updateBubbles(): void {
-        if (!this.config.enableBubbles) return;
+    // 取出一个空闲粒子，池满时返回 null
+    acquire(): Particle | null {
+        const particle = this.free.pop();
+        if (particle) return particle;
+        if (this.particles.length >= this.capacity) return null;
         
-        this.bubbles.forEach(bubble => {
-            bubble.update();
+        const created = new Particle();
+        this.particles.push(created);
+        return created;
+    }
+    
+    // 归还粒子
+    release(particle: Particle): void {
+        if (!particle.active) return;
+        particle.active = false;
+        this.free.push(particle);
+    }
+    
+    // 归还满足条件的粒子
+    releaseWhere(predicate: (particle: Particle) => boolean): void {
+        this.forEach(particle => {
+            if (predicate(particle)) {
+                this.release(particle);
+            }
         });
     }
     
-    // 绘制气泡
-    private drawBubbles(): void {
-        if (!this.config.enableBubbles) return;
-        
-        this.bubbles.forEach(bubble => {
-            bubble.draw(this.ctx);
+    // 归还所有粒子，之后按创建顺序重新取出，保证恢复快照后粒子顺序不变
+    clear(): void {
+        this.particles.forEach(particle => {
+            particle.active = false;
         });
+        this.free = [...this.particles].reverse();
     }
     
-    // 绘制海洋背景
-    private drawBackground(): void {
-        if (!this.config.enableBackground) return;
+    // 按创建顺序遍历活跃粒子，遍历过程中可以发射或归还粒子
+    forEach(callback: (particle: Particle) => void): void {
+        const count = this.particles.length;
+        for (let i = 0; i < count; i++) {
+            const particle = this.particles[i];
+            if (particle?.active) {
+                callback(particle);
+            }
+        }
+    }
+    
+    // 活跃粒子数量
+    getActiveCount(): number {
+        return this.particles.length - this.free.length;
+    }
+    
+    // 筛选活跃粒子
+    filter(predicate: (particle: Particle) => boolean): Particle[] {
+        const result: Particle[] = [];
+        this.forEach(particle => {
+            if (predicate(particle)) {
+                result.push(particle);
+            }
+        });
+        return result;
+    }
+    
+    // 从后往前查找满足条件的活跃粒子（后绘制的粒子位于上层）
+    findLast(predicate: (particle: Particle) => boolean): Particle | undefined {
+        for (let i = this.particles.length - 1; i >= 0; i--) {
+            const particle = this.particles[i];
+            if (particle.active && predicate(particle)) {
+                return particle;
+            }
+        }
+        return undefined;
+    }
+}
+
+// 水面高度场：一排用弹簧相连的水柱，扰动会向两侧传播并逐渐衰减
+class WaterSurface {
+    private static readonly STEP = 1 / BASE_FPS;
+    private static readonly MAX_STEPS = 5;
+    private static readonly MAX_HEIGHT = 40;
+    private options: Required<RippleOptions>;
+    private heights: number[] = [];
+    private velocities: number[] = [];
+    // 扩散计算使用的第二个速度缓冲区，每步与 velocities 交换，避免逐步分配数组
+    private nextVelocities: number[] = [];
+    private accumulator: number = 0;
+
+    constructor(options: Required<RippleOptions>) {
+        this.options = options;
+    }
+    
+    // 更新模拟参数
+    setOptions(options: Required<RippleOptions>): void {
+        this.options = options;
+    }
+    
+    // 按宽度重建水柱，已有涟漪会被清除
+    resize(width: number): void {
+        const count = Math.max(2, Math.ceil(width / this.options.resolution) + 1);
+        this.heights = new Array(count).fill(0);
+        this.velocities = new Array(count).fill(0);
+        this.nextVelocities = new Array(count).fill(0);
+        this.accumulator = 0;
+    }
+    
+    // 在 x 处施加冲量（正值使水面下陷，负值使水面隆起），在 radius 范围内线性衰减
+    disturb(x: number, impulse: number, radius: number): void {
+        const spacing = this.options.resolution;
+        const reach = Math.max(radius, spacing);
+        const start = Math.max(0, Math.floor((x - reach) / spacing));
+        const end = Math.min(this.heights.length - 1, Math.ceil((x + reach) / spacing));
         
-        const gradient = this.ctx.createLinearGradient(0, 0, 0, this.canvas.height);
-        const { colors, stops } = this.config.backgroundGradient;
+        for (let i = start; i <= end; i++) {
+            const falloff = 1 - Math.abs(i * spacing - x) / reach;
+            if (falloff > 0) {
+                this.velocities[i] += impulse * falloff;
+            }
+        }
+    }
+    
+    // 以固定步长推进模拟，保证不同帧率下表现一致
+    update(dt: number): void {
+        this.accumulator = Math.min(this.accumulator + dt, WaterSurface.STEP * WaterSurface.MAX_STEPS);
+        while (this.accumulator >= WaterSurface.STEP) {
+            this.step();
+            this.accumulator -= WaterSurface.STEP;
+        }
+    }
+    
+    // 获取 x 处的水面高度偏移（向下为正）
+    getHeight(x: number): number {
+        const last = this.heights.length - 1;
+        if (last < 0) return 0;
         
-        if (colors) {
-            colors.forEach((color, index) => {
-                const stop = (stops && stops[index] !== undefined) ? stops[index] : index / (colors.length - 1);
-                gradient.addColorStop(stop, color);
-            });
+        const position = Math.max(0, Math.min(last, x / this.options.resolution));
+        const index = Math.min(Math.floor(position), last - 1);
+        const t = position - index;
+        return this.heights[index] * (1 - t) + this.heights[index + 1] * t;
+    }
+    
+    private step(): void {
+        const { tension, damping, spread } = this.options;
+        const count = this.heights.length;
+        
+        for (let i = 0; i < count; i++) {
+            this.velocities[i] += -tension * this.heights[i] - damping * this.velocities[i];
+            this.heights[i] = Math.max(-WaterSurface.MAX_HEIGHT,
+                Math.min(WaterSurface.MAX_HEIGHT, this.heights[i] + this.velocities[i]));
         }
         
-        this.ctx.fillStyle = gradient;
-        this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+        // 相邻水柱的高度差会带动彼此运动，使涟漪向两侧扩散
+        const next = this.nextVelocities;
+        for (let i = 0; i < count; i++) {
+            next[i] = this.velocities[i];
+        }
+        for (let i = 0; i < count - 1; i++) {
+            const delta = spread * (this.heights[i] - this.heights[i + 1]);
+            next[i] -= delta;
+            next[i + 1] += delta;
+        }
+        this.nextVelocities = this.velocities;
+        this.velocities = next;
     }
-   
+}
+
+// 绘制层在注册表中的记录，order 为注册顺序，zIndex 相同时按注册顺序绘制
+interface LayerEntry {
+    layer: OceanLayer;
+    zIndex: number;
+    enabled: boolean;
+    builtIn: boolean;
+    order: number;
+    /** 平滑后的每帧更新与绘制耗时（毫秒） */
+    updateTime: number;
+    drawTime: number;
+}
+
+// 可以通过 Worker 远程调用的 OceanWorld 方法白名单，参数需可被结构化克隆
+const OCEAN_WORLD_WORKER_METHODS = [
+    'start', 'stop', 'pause', 'resume', 'setTimeScale', 'updateConfig', 'reset', 'reseed',
+    'setVisible', 'setPrefersReducedMotion', 'setQualityLevel', 'setMouseFollow', 'toggleMouseFollow',
+    'selectShark', 'addShark', 'removeShark', 'moveSharkTo', 'followPath', 'releaseShark', 'breachShark',
+    'setSharkSpeed', 'setSharkDepth', 'changeSharkSpeed', 'setSharkAppearance', 'setSharkBehavior', 'setSharkBehaviorRules',
+    'setWaveLayers', 'setSeaState', 'setWaveColors', 'addWaveColor', 'removeWaveColor', 'clearAndSetWaveColors',
+    'toggleBubbles', 'toggleBackground', 'setBackgroundGradient', 'setTheme', 'load',
+    'removeBehavior', 'removeLayer', 'setLayerEnabled', 'setLayerZIndex'
+] as const;
+
+// 可以通过 Worker 远程调用的 OceanWorld 方法名
+type OceanWorldMethod = typeof OCEAN_WORLD_WORKER_METHODS[number];
+
+// 远程调用的消息，参数类型与方法一一对应
+type OceanWorldCallMessage = {
+    [K in OceanWorldMethod]: { type: 'call'; method: K; args: Parameters<OceanWorld[K]> }
+}[OceanWorldMethod];
+
+// 判断方法名是否在白名单中
+function isOceanWorldMethod(method: unknown): method is OceanWorldMethod {
+    return (OCEAN_WORLD_WORKER_METHODS as readonly unknown[]).includes(method);
+}
+
+// 在实例上调用白名单中的方法
+function callOceanWorldMethod<K extends OceanWorldMethod>(world: OceanWorld, method: K, args: Parameters<OceanWorld[K]>): ReturnType<OceanWorld[K]> {
+    const fn = world[method] as (...args: Parameters<OceanWorld[K]>) => ReturnType<OceanWorld[K]>;
+    return fn.apply(world, args);
+}
+
+// 主线程与 Worker 之间传递的消息
+type OceanWorkerMessage =
+    | { type: 'init'; canvas: OffscreenCanvas; options: OceanWorldOptions }
+    | { type: 'resize'; width: number; height: number; pixelRatio: number }
+    | { type: 'pointer'; x: number; y: number }
+    | { type: 'pointerLeave' }
+    | { type: 'tap'; x: number; y: number }
+    | OceanWorldCallMessage
+    | { type: 'destroy' };
+
+// Worker 全局作用域中本库用到的最小接口
+interface OceanWorkerScope {
+    addEventListener(type: 'message', listener: (event: MessageEvent<OceanWorkerMessage>) => void): void;
+    removeEventListener(type: 'message', listener: (event: MessageEvent<OceanWorkerMessage>) => void): void;
+}
+
+/**
+ * 在 Worker 中运行海洋世界
+ * 在 Worker 脚本中调用，接收主线程 OceanWorldWorker 发来的画布与指令，模拟与绘制都在 Worker 线程完成
+ * @example
+ * // ocean.worker.ts
+ * import { exposeOceanWorld } from 'ocean-world';
+ * exposeOceanWorld();
+ */
+function exposeOceanWorld(scope: OceanWorkerScope = globalThis as unknown as OceanWorkerScope): void {
+    let world: OceanWorld | null = null;
     
-    // 动画循环
-    private animate(): void {
-        this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+    const handleMessage = (event: MessageEvent<OceanWorkerMessage>) => {
+        const message = event.data;
+        
+        switch (message.type) {
+            case 'init':
+                world?.destroy();
+                world = new OceanWorld(message.canvas, message.options);
+                break;
+            case 'resize':
+                world?.resize(message.width, message.height, message.pixelRatio);
+                break;
+            case 'pointer':
+                world?.setPointer(message.x, message.y);
+                break;
+            case 'pointerLeave':
+                world?.clearPointer();
+                break;
+            case 'tap':
+                world?.tap(message.x, message.y);
+                break;
+            case 'call':
+                // 消息来自 Worker 外部，忽略不在白名单中的方法
+                if (world && isOceanWorldMethod(message.method)) {
+                    callOceanWorldMethod(world, message.method, message.args);
+                }
+                break;
+            case 'destroy':
+                world?.destroy();
+                world = null;
+                scope.removeEventListener('message', handleMessage);
+                break;
+        }
+    };
+    
+    scope.addEventListener('message', handleMessage);
+}
+
+// Worker 模式的主线程代理：将画布控制权移交给 Worker，并转发尺寸变化和指针事件
+class OceanWorldWorker {
+    private canvas: HTMLCanvasElement;
+    private worker: Worker;
+    private isPointerInside: boolean = false;
+    private isInViewport: boolean = true;
+    private destroyed: boolean = false;
+    private resizeObserver: ResizeObserver | null = null;
+    private intersectionObserver: IntersectionObserver | null = null;
+    private reducedMotionQuery: MediaQueryList | null = null;
+    private readonly onResize = () => this.postSize();
+    private readonly onVisibilityChange = () => this.postVisibility();
+    private readonly onIntersection = (entries: IntersectionObserverEntry[]) => {
+        const entry = entries[entries.length - 1];
+        if (!entry) return;
+        this.isInViewport = entry.isIntersecting;
+        this.postVisibility();
+    };
+    private readonly onReducedMotionChange = (e: MediaQueryListEvent) => this.call('setPrefersReducedMotion', e.matches);
+    private readonly onClick = (e: MouseEvent) => {
+        const rect = this.canvas.getBoundingClientRect();
+        this.post({ type: 'tap', x: e.clientX - rect.left, y: e.clientY - rect.top });
+    };
+    private readonly onMouseMove = (e: MouseEvent) => this.forwardPointer(e.clientX, e.clientY);
+    private readonly onTouchMove = (e: TouchEvent) => {
+        const touch = e.touches[0];
+        if (touch) {
+            this.forwardPointer(touch.clientX, touch.clientY);
+        }
+    };
+
+    /**
+     * @param canvas canvas 元素或其 id，控制权会被移交给 Worker，之后不能再在主线程绘制
+     * @param worker 已调用 exposeOceanWorld() 的 Worker
+     * @param options 海洋世界配置，需可被结构化克隆
+     */
+    constructor(canvas: string | HTMLCanvasElement, worker: Worker, options: OceanWorldOptions = {}) {
+        const element = resolveCanvas(canvas);
+        if (!isHTMLCanvas(element)) {
+            throw new Error('OceanWorldWorker requires a canvas element');
+        }
+        if (typeof element.transferControlToOffscreen !== 'function') {
+            throw new Error('OffscreenCanvas is not supported in this browser');
+        }
         
-        this.drawBackground();
+        this.canvas = element;
+        this.worker = worker;
         
-        this.updateWaves();
-        this.drawWaves();
+        // 移交控制权后无法再修改元素尺寸，因此先同步布局尺寸；
+        // 没有 CSS 尺寸时布局尺寸会跟随 Worker 中调整的位图尺寸，需先固定样式尺寸
+        if (!hasCssSize(this.canvas)) {
+            this.canvas.style.width = `${this.canvas.offsetWidth}px`;
+            this.canvas.style.height = `${this.canvas.offsetHeight}px`;
+        }
+        this.canvas.width = this.canvas.offsetWidth;
+        this.canvas.height = this.canvas.offsetHeight;
+        
+        const offscreen = this.canvas.transferControlToOffscreen();
+        this.post({ type: 'init', canvas: offscreen, options }, [offscreen]);
+        this.postSize();
         
-        this.updateBubbles();
-        this.drawBubbles();
+        // 与主线程模式一致，优先跟踪画布自身尺寸，不支持 ResizeObserver 时退回到窗口 resize
+        if (typeof ResizeObserver !== 'undefined') {
+            this.resizeObserver = new ResizeObserver(this.onResize);
+            this.resizeObserver.observe(this.canvas);
+        } else {
+            window.addEventListener('resize', this.onResize);
+        }
+        if (options.enableInteraction !== false) {
+            this.canvas.addEventListener('click', this.onClick);
+        }
+        if (options.enableMouseFollow !== false) {
+            document.addEventListener('mousemove', this.onMouseMove);
+            document.addEventListener('touchmove', this.onTouchMove);
+        }
         
-        this.updateSharks();
-        this.drawSharks();
+        // Worker 中无法获取页面可见性与媒体查询，由主线程转发
+        document.addEventListener('visibilitychange', this.onVisibilityChange);
+        if (typeof IntersectionObserver !== 'undefined') {
+            this.intersectionObserver = new IntersectionObserver(this.onIntersection);
+            this.intersectionObserver.observe(this.canvas);
+        }
+        if (typeof matchMedia !== 'undefined') {
+            this.reducedMotionQuery = matchMedia('(prefers-reduced-motion: reduce)');
+            this.reducedMotionQuery.addEventListener('change', this.onReducedMotionChange);
+            this.call('setPrefersReducedMotion', this.reducedMotionQuery.matches);
+        }
+        this.postVisibility();
+    }
+    
+    // 向 Worker 发送消息
+    private post(message: OceanWorkerMessage, transfer: Transferable[] = []): void {
+        if (this.destroyed) return;
+        this.worker.postMessage(message, transfer);
+    }
+    
+    // 同步画布尺寸
+    private postSize(): void {
+        this.post({
+            type: 'resize',
+            width: this.canvas.offsetWidth,
+            height: this.canvas.offsetHeight,
+            pixelRatio: window.devicePixelRatio || 1
+        });
+    }
+    
+    // 同步画布可见性
+    private postVisibility(): void {
+        this.call('setVisible', !document.hidden && this.isInViewport);
+    }
+    
+    // 转换并转发指针位置
+    private forwardPointer(clientX: number, clientY: number): void {
+        const rect = this.canvas.getBoundingClientRect();
+        const isInside = clientX >= rect.left && clientX <= rect.right &&
+            clientY >= rect.top && clientY <= rect.bottom;
         
-        this.animationId = requestAnimationFrame(() => this.animate());
+        if (isInside) {
+            this.isPointerInside = true;
+            this.post({ type: 'pointer', x: clientX - rect.left, y: clientY - rect.top });
+        } else if (this.isPointerInside) {
+            this.isPointerInside = false;
+            this.post({ type: 'pointerLeave' });
+        }
+    }
+    
+    // 在 Worker 中调用 OceanWorld 的方法（不返回结果）
+    call<K extends OceanWorldMethod>(method: K, ...args: Parameters<OceanWorld[K]>): void {
+        // 泛型参数无法自动收窄到联合类型中的某一项，方法名与参数的对应已由签名保证
+        this.post({ type: 'call', method, args } as OceanWorldCallMessage);
     }
     
     // 开始动画
     start(): void {
-        if (this.animationId) {
-            cancelAnimationFrame(this.animationId);
-        }
-        this.animate();
+        this.call('start');
     }
     
     // 停止动画
     stop(): void {
-        if (this.animationId) {
-            cancelAnimationFrame(this.animationId);
-            this.animationId = null;
-        }
+        this.call('stop');
+    }
+    
+    // 暂停模拟
+    pause(): void {
+        this.call('pause');
+    }
+    
+    // 恢复模拟
+    resume(): void {
+        this.call('resume');
+    }
+    
+    // 设置时间缩放
+    setTimeScale(scale: number): void {
+        this.call('setTimeScale', scale);
     }
     
     // 更新配置
     updateConfig(newConfig: Partial<OceanWorldOptions>): void {
-        const oldWaveColors = [...this.config.waveColors];
-        
-        this.config = { ...this.config, ...newConfig };
-        
-        if (newConfig.waveCount !== undefined || newConfig.waterLevel !== undefined) {
-            this.createWaves();
-        }
-        
-        if (newConfig.sharkCount !== undefined) {
-            this.createSharks();
-        }
-        
-        if (newConfig.enableBubbles !== undefined) {
-            if (this.config.enableBubbles && this.bubbles.length === 0) {
-                this.createBubbles();
-            }
-        }
-        
-        if (newConfig.backgroundGradient) {
-            this.config.backgroundGradient = {
-                ...this.config.backgroundGradient,
-                ...newConfig.backgroundGradient
-            };
-        }
+        this.call('updateConfig', newConfig);
+    }
+    
+    // 销毁 Worker 中的实例并解除主线程事件监听，terminate 为 true 时同时终止 Worker
+    destroy(terminate: boolean = true): void {
+        if (this.destroyed) return;
+        this.post({ type: 'destroy' });
+        this.destroyed = true;
         
-        if (newConfig.waveColors && JSON.stringify(newConfig.waveColors) !== JSON.stringify(oldWaveColors)) {
-            this.createWaves();
+        if (this.resizeObserver) {
+            this.resizeObserver.disconnect();
+            this.resizeObserver = null;
+        } else {
+            window.removeEventListener('resize', this.onResize);
         }
+        this.canvas.removeEventListener('click', this.onClick);
+        document.removeEventListener('mousemove', this.onMouseMove);
+        document.removeEventListener('touchmove', this.onTouchMove);
+        document.removeEventListener('visibilitychange', this.onVisibilityChange);
+        this.intersectionObserver?.disconnect();
+        this.intersectionObserver = null;
+        this.reducedMotionQuery?.removeEventListener('change', this.onReducedMotionChange);
+        this.reducedMotionQuery = null;
         
-        // 更新鼠标跟随配置时重新绑定事件
-        if (newConfig.enableMouseFollow !== undefined) {
-            // 这里可以添加事件重新绑定的逻辑
+        if (terminate) {
+            this.worker.terminate();
         }
     }
-    
-    // 销毁实例
-    destroy(): void {
-        this.stop();
-        // 可以在这里添加更多清理逻辑
-    }
 }
 
-// 气泡类
-class Bubble {
-    private canvas: HTMLCanvasElement;
-    private x: number;
-    private y: number;
-    private size: number;
-    private speed: number;
-    private opacity: number;
-
-    constructor(canvas: HTMLCanvasElement) {
-        this.canvas = canvas;
-        this.x = 0;
-        this.y = 0;
-        this.size = 0;
-        this.speed = 0;
-        this.opacity = 0;
-        this.reset();
+// 随机数源接口，所有随机变化都通过它获取
+interface RandomSource {
+    /** 返回 [0, 1) 区间的随机数 */
+    next(): number;
+}
+
+// 可设置种子的伪随机数生成器（mulberry32）
+class SeededRandom implements RandomSource {
+    private state: number = 0;
+
+    constructor(seed: number) {
+        this.seed(seed);
     }
     
-    reset(): void {
-        this.x = Math.random() * this.canvas.width;
-        this.y = this.canvas.height + Math.random() * 100;
-        this.size = Math.random() * 10 + 5;
-        this.speed = Math.random() * 2 + 1;
-        this.opacity = Math.random() * 0.5 + 0.2;
+    // 生成一个随机种子
+    static randomSeed(): number {
+        return Math.floor(Math.random() * 0x100000000);
     }
     
-    update(): void {
-        this.y -= this.speed;
-        this.x += Math.sin(this.y * 0.05) * 0.5;
-        
-        if (this.y < -this.size) {
-            this.reset();
-        }
+    // 重新设置种子
+    seed(seed: number): void {
+        this.state = seed >>> 0;
     }
     
-    draw(ctx: CanvasRenderingContext2D): void {
-        ctx.beginPath();
-        ctx.arc(this.x, this.y, this.size, 0, Math.PI * 2);
-        ctx.fillStyle = `rgba(255, 255, 255, ${this.opacity})`;
-        ctx.fill();
+    // 获取内部状态，用于保存与恢复随机序列
+    getState(): number {
+        return this.state;
+    }
+    
+    // 恢复内部状态
+    setState(state: number): void {
+        this.state = state >>> 0;
+    }
+    
+    next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
     }
 }
 
-export { OceanWorld, type OceanWorldOptions };
\ No newline at end of file
+export {
+    OceanWorld,
+    OceanWorldWorker,
+    SeededRandom,
+    exposeOceanWorld,
+    type AdaptiveQualityOptions,
+    type BubbleOptions,
+    type BubbleSnapshot,
+    type BubbleSource,
+    type BubbleVentOptions,
+    type EcosystemOptions,
+    type EcosystemPopulation,
+    type FishOptions,
+    type FishSnapshot,
+    type OceanBenchmarkOptions,
+    type OceanBenchmarkResult,
+    type OceanCanvas,
+    type OceanEntity,
+    type OceanLayer,
+    type OceanLayerInfo,
+    type OceanLayerStats,
+    type OceanQualitySettings,
+    type OceanRenderingContext,
+    type OceanStats,
+    type OceanTheme,
+    type OceanWorldEventListener,
+    type OceanWorldEventMap,
+    type OceanWorldOptions,
+    type OceanWorldSnapshot,
+    type OceanWorldState,
+    type OceanWorkerMessage,
+    type OceanWorldMethod,
+    type Point,
+    type RandomSource,
+    type ReducedMotionOptions,
+    type RippleOptions,
+    type SeabedOptions,
+    type SharkAppearance,
+    type SharkBehavior,
+    type SharkBehaviorCondition,
+    type SharkBehaviorContext,
+    type SharkBehaviorOptions,
+    type SharkBehaviorRule,
+    type SharkDetail,
+    type SharkMode,
+    type SharkOptions,
+    type SharkSnapshot,
+    type SteeringOptions,
+    type SwimZone,
+    type SwimZoneOptions,
+    type ThemeTransitionOptions,
+    type WaveComponent,
+    type WaveLayerOptions
+};
\ No newline at end of file
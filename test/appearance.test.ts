@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createCanvas, createDrawLog, createWorld } from './helpers';
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe('shark appearance', () => {
+    it('layers per-shark overrides over the global appearance', () => {
+        const { world } = createWorld({ seed: 1, sharkAppearance: { bellyColor: '#eeeeee', showGills: false } });
+        const id = world.addShark({ appearance: { backColor: '#112233' } });
+        
+        const { appearance } = world.getShark(id)!;
+        expect(appearance.backColor).toBe('#112233');
+        expect(appearance.bellyColor).toBe('#eeeeee');
+        expect(appearance.showGills).toBe(false);
+        
+        expect(world.setSharkAppearance({ eyeColor: 'red' }, id)).toBe(true);
+        expect(world.getShark(id)!.appearance.eyeColor).toBe('red');
+        expect(world.setSharkAppearance({ eyeColor: 'red' }, 999)).toBe(false);
+        world.destroy();
+    });
+    
+    it('applies global appearance changes to sharks without overrides', () => {
+        const { world } = createWorld({ seed: 1, sharkCount: 2 });
+        const [first, second] = world.getSharks();
+        world.setSharkAppearance({ finColor: '#445566' }, first.id);
+        world.setSharkAppearance({ finColor: '#000000', showHighlights: false });
+        
+        expect(world.getShark(first.id)!.appearance.finColor).toBe('#445566');
+        expect(world.getShark(second.id)!.appearance.finColor).toBe('#000000');
+        expect(world.getSharkAppearance().showHighlights).toBe(false);
+        world.destroy();
+    });
+    
+    it('draws sharks with colors derived from their appearance', () => {
+        const log = createDrawLog();
+        const { world, tick } = createWorld({
+            seed: 1,
+            depth: { enabled: false },
+            sharkAppearance: { backColor: '#102030', bellyColor: '#f0f0f0' }
+        }, createCanvas(800, 600, log));
+        tick(2);
+        
+        expect(log.colors).toContain('rgba(16, 32, 48, 1)');
+        expect(log.colors).toContain('rgba(240, 240, 240, 1)');
+        world.destroy();
+    });
+});
@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createWorld } from './helpers';
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe('shark behaviors', () => {
+    it('runs registered behaviors through enter, update and exit', () => {
+        const { world, tick } = createWorld({ seed: 1, sharkCount: 1 });
+        const [shark] = world.getSharks();
+        const calls: string[] = [];
+        world.registerBehavior('park', {
+            enter: context => {
+                calls.push('enter');
+                context.memory.visits = 1;
+            },
+            update: context => {
+                calls.push(`update ${context.memory.visits}`);
+                context.setTarget(100, 400);
+            },
+            exit: () => calls.push('exit')
+        });
+        
+        expect(world.setSharkBehavior(shark.id, 'park')).toBe(true);
+        expect(world.setSharkBehavior(shark.id, 'missing')).toBe(false);
+        tick(2);
+        expect(world.getShark(shark.id)).toMatchObject({ behavior: 'park', targetX: 100, targetY: 400 });
+        
+        world.setSharkBehavior(shark.id, 'wander');
+        expect(calls).toEqual(['enter', 'update 1', 'update 1', 'exit']);
+        world.destroy();
+    });
+    
+    it('switches behaviors when a transition rule matches', () => {
+        const { world, tick } = createWorld({
+            seed: 1,
+            sharkCount: 1,
+            behavior: { initial: 'idle', rules: [{ from: ['idle'], to: 'patrol', when: 'timeout', after: [0.5, 0.5] }] }
+        });
+        const [shark] = world.getSharks();
+        expect(shark.behavior).toBe('idle');
+        
+        tick(20);
+        expect(world.getShark(shark.id)!.behavior).toBe('idle');
+        tick(20);
+        expect(world.getShark(shark.id)!.behavior).toBe('patrol');
+        world.destroy();
+    });
+    
+    it('circles the pointer instead of sitting on it and flees from fast approaches', () => {
+        const { world, tick } = createWorld({ seed: 1, sharkCount: 1 });
+        const [shark] = world.getSharks();
+        world.setSharkBehaviorRules(shark.id, [{ to: 'circle', when: 'pointerPresent' }]);
+        world.setPointer(400, 350);
+        tick(600);
+        
+        const circling = world.getShark(shark.id)!;
+        expect(circling.behavior).toBe('circle');
+        expect(Math.hypot(circling.x - 400, circling.y - 350)).toBeGreaterThan(circling.size);
+        
+        world.setSharkBehaviorRules(shark.id, null);
+        world.setSharkBehavior(shark.id, 'wander');
+        world.setPointer(circling.x - 300, circling.y);
+        tick();
+        world.setPointer(circling.x - 20, circling.y);
+        tick();
+        expect(world.getShark(shark.id)!.behavior).toBe('flee');
+        world.destroy();
+    });
+    
+    it('protects the built-in behaviors from removal', () => {
+        const { world } = createWorld({ seed: 1 });
+        world.registerBehavior('custom', { update: () => {} });
+        
+        expect(world.getBehaviors()).toEqual(expect.arrayContaining(['wander', 'patrol', 'circle', 'idle', 'flee', 'custom']));
+        expect(world.removeBehavior('wander')).toBe(false);
+        expect(world.removeBehavior('custom')).toBe(true);
+        expect(world.getBehaviors()).not.toContain('custom');
+        world.destroy();
+    });
+});
@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { FRAME, createWorld } from './helpers';
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe('simulation clock', () => {
+    it('advances by the elapsed frame time', () => {
+        const { world, tick } = createWorld({ seed: 1 });
+        tick(10);
+        expect(world.getSimulationTime()).toBeCloseTo(10 * FRAME);
+        world.destroy();
+    });
+    
+    it('scales elapsed time by the time scale', () => {
+        const { world, tick } = createWorld({ seed: 1 });
+        world.setTimeScale(2);
+        tick(10);
+        expect(world.getSimulationTime()).toBeCloseTo(20 * FRAME);
+        
+        world.setTimeScale(0);
+        tick(10);
+        expect(world.getSimulationTime()).toBeCloseTo(20 * FRAME);
+        world.destroy();
+    });
+    
+    it('clamps long gaps between frames', () => {
+        const { world, tick } = createWorld({ seed: 1 });
+        tick(1, 5000);
+        expect(world.getSimulationTime()).toBeCloseTo(100);
+        world.destroy();
+    });
+    
+    it('moves sharks the same distance regardless of frame rate', () => {
+        const run = (frames: number, step: number) => {
+            const { world, tick } = createWorld({ seed: 1, sharkCount: 1, steering: { acceleration: 1000 } });
+            const [shark] = world.getSharks();
+            world.moveSharkTo(shark.id, shark.x + 300, shark.y);
+            tick(frames, step);
+            const moved = world.getShark(shark.id)!;
+            world.destroy();
+            return Math.hypot(moved.x - shark.x, moved.y - shark.y);
+        };
+        // 60Hz 与 120Hz 下经过相同的 0.48 秒
+        expect(run(60, 8)).toBeCloseTo(run(30, 16), 0);
+    });
+    
+    it('rejects invalid time scales', () => {
+        const { world } = createWorld({ seed: 1 });
+        expect(() => world.setTimeScale(-1)).toThrow('Invalid time scale');
+        expect(() => world.setTimeScale(Number.NaN)).toThrow('Invalid time scale');
+        expect(world.getTimeScale()).toBe(1);
+        world.destroy();
+    });
+    
+    it('freezes simulation time while paused', () => {
+        const { world, tick } = createWorld({ seed: 1, sharkCount: 2 });
+        tick(5);
+        world.pause();
+        const time = world.getSimulationTime();
+        const sharks = world.getSharks();
+        tick(30);
+        expect(world.isPaused()).toBe(true);
+        expect(world.getSimulationTime()).toBe(time);
+        expect(world.getSharks()).toEqual(sharks);
+        
+        world.resume();
+        tick(5);
+        expect(world.getSimulationTime()).toBeCloseTo(time + 5 * FRAME);
+        world.destroy();
+    });
+    
+    it('reports the simulated delta in frame events', () => {
+        const { world, tick } = createWorld({ seed: 1 });
+        const deltas: number[] = [];
+        world.on('frame', ({ delta }) => deltas.push(delta));
+        world.setTimeScale(0.5);
+        tick(3);
+        deltas.forEach(delta => expect(delta).toBeCloseTo(FRAME / 1000 * 0.5));
+        world.destroy();
+    });
+});
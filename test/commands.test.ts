@@ -0,0 +1,123 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createWorld } from './helpers';
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe('shark registry', () => {
+    it('adds sharks with stable ids and per-shark options', () => {
+        const { world } = createWorld({ seed: 1, sharkCount: 1 });
+        const first = world.addShark({ size: 30, speed: 80, x: 200, y: 300, z: 0.5 });
+        const second = world.addShark();
+        
+        expect(second).toBeGreaterThan(first);
+        expect(world.getShark(first)).toMatchObject({ id: first, size: 30, speed: 80, x: 200, y: 300, z: 0.5 });
+        expect(world.getSharks().map(shark => shark.id)).toContain(second);
+        world.destroy();
+    });
+    
+    it('removes sharks by id without renumbering the others', () => {
+        const { world } = createWorld({ seed: 1, sharkCount: 3 });
+        const [first, second, third] = world.getSharks().map(shark => shark.id);
+        
+        expect(world.removeShark(second)).toBe(true);
+        expect(world.removeShark(second)).toBe(false);
+        expect(world.getSharks().map(shark => shark.id)).toEqual([first, third]);
+        expect(world.removeShark()).toBe(true);
+        expect(world.getSharks().map(shark => shark.id)).toEqual([first]);
+        world.destroy();
+    });
+    
+    it('returns frozen snapshots detached from the simulation', () => {
+        const { world, tick } = createWorld({ seed: 1, sharkCount: 1 });
+        const [shark] = world.getSharks();
+        tick(30);
+        
+        expect(Object.isFrozen(shark)).toBe(true);
+        expect(world.getShark(shark.id)!.x).not.toBe(shark.x);
+        world.destroy();
+    });
+    
+    it('changes the speed of a single shark', () => {
+        const { world } = createWorld({ seed: 1, sharkCount: 2 });
+        const [first, second] = world.getSharks();
+        
+        expect(world.setSharkSpeed(first.id, 120)).toBe(true);
+        expect(world.getShark(first.id)!.speed).toBe(120);
+        expect(world.getShark(second.id)!.speed).toBe(second.speed);
+        expect(world.setSharkSpeed(999, 120)).toBe(false);
+        world.destroy();
+    });
+});
+
+describe('shark commands', () => {
+    it('moves a shark to the target and reports arrival', () => {
+        const { world, tick } = createWorld({ seed: 1, sharkCount: 1 });
+        const [shark] = world.getSharks();
+        const reached = vi.fn();
+        world.on('sharkTargetReached', reached);
+        
+        expect(world.moveSharkTo(shark.id, 400, 400)).toBe(true);
+        tick(600);
+        
+        const moved = world.getShark(shark.id)!;
+        expect(moved.mode).toBe('moveTo');
+        expect(Math.hypot(moved.x - 400, moved.y - 400)).toBeLessThanOrEqual(5);
+        expect(reached).toHaveBeenCalledWith(expect.objectContaining({ targetX: 400, targetY: 400 }));
+        world.destroy();
+    });
+    
+    it('keeps move targets below the water surface', () => {
+        const { world, tick } = createWorld({ seed: 1, sharkCount: 1 });
+        const [shark] = world.getSharks();
+        world.moveSharkTo(shark.id, 400, 10);
+        tick(600);
+        
+        const moved = world.getShark(shark.id)!;
+        expect(moved.targetY).toBeGreaterThan(600 * 0.2);
+        expect(Math.hypot(moved.x - moved.targetX, moved.y - moved.targetY)).toBeLessThanOrEqual(5);
+        world.destroy();
+    });
+    
+    it('keeps cycling through a looping path', () => {
+        const { world, tick } = createWorld({ seed: 1, sharkCount: 1 });
+        const [shark] = world.getSharks();
+        world.followPath(shark.id, [{ x: 200, y: 300 }, { x: 600, y: 300 }], { loop: true });
+        
+        // 记录依次经过的路径点，循环路径会在两端之间往返
+        const visits: number[] = [];
+        for (let i = 0; i < 3000; i++) {
+            tick();
+            const { x, y } = world.getShark(shark.id)!;
+            const near = [200, 600].findIndex(px => Math.hypot(x - px, y - 300) <= 10);
+            if (near !== -1 && visits[visits.length - 1] !== near) {
+                visits.push(near);
+            }
+        }
+        
+        expect(visits.slice(0, 4)).toEqual([0, 1, 0, 1]);
+        expect(world.getShark(shark.id)!.mode).toBe('path');
+        world.destroy();
+    });
+    
+    it('returns to autonomous behavior when released', () => {
+        const { world, tick } = createWorld({ seed: 1, sharkCount: 1 });
+        const [shark] = world.getSharks();
+        world.moveSharkTo(shark.id, 400, 400);
+        tick(10);
+        expect(world.releaseShark(shark.id)).toBe(true);
+        tick(1);
+        expect(world.getShark(shark.id)!.mode).not.toBe('moveTo');
+        world.destroy();
+    });
+    
+    it('rejects commands for unknown sharks', () => {
+        const { world } = createWorld({ seed: 1, sharkCount: 1 });
+        expect(world.moveSharkTo(999, 100, 100)).toBe(false);
+        expect(world.followPath(999, [{ x: 0, y: 0 }])).toBe(false);
+        expect(world.releaseShark(999)).toBe(false);
+        world.destroy();
+    });
+});
@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createCanvas, createDrawLog, createWorld } from './helpers';
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe('depth layers', () => {
+    it('glides sharks toward a clamped target depth', () => {
+        const { world, tick } = createWorld({ seed: 1, sharkCount: 1 });
+        const id = world.addShark({ x: 400, y: 300, z: 0 });
+        // 外部指令期间行为暂停，不会修改目标深度
+        world.moveSharkTo(id, 400, 300);
+        
+        expect(world.setSharkDepth(id, 5)).toBe(true);
+        expect(world.setSharkDepth(999, 0.5)).toBe(false);
+        tick();
+        const z = world.getShark(id)!.z;
+        expect(z).toBeGreaterThan(0);
+        expect(z).toBeLessThan(1);
+        
+        tick(1200);
+        expect(world.getShark(id)!.z).toBeCloseTo(1, 2);
+        world.destroy();
+    });
+    
+    it('moves far sharks more slowly than near ones', () => {
+        const { world, tick } = createWorld({ seed: 1, sharkCount: 1 });
+        world.removeShark();
+        const near = world.addShark({ x: 100, y: 250, z: 0, speed: 2 });
+        const far = world.addShark({ x: 100, y: 400, z: 1, speed: 2 });
+        world.moveSharkTo(near, 700, 250);
+        world.moveSharkTo(far, 700, 400);
+        tick(30);
+        
+        expect(world.getShark(far)!.x - 100).toBeLessThan(world.getShark(near)!.x - 100);
+        world.destroy();
+    });
+    
+    it('hit-tests the nearest of overlapping sharks', () => {
+        const { world } = createWorld({ seed: 1, sharkCount: 1 });
+        world.removeShark();
+        const near = world.addShark({ x: 400, y: 300, z: 0 });
+        world.addShark({ x: 400, y: 300, z: 0.8 });
+        
+        expect(world.getEntityAt(400, 300)).toMatchObject({ type: 'shark', shark: { id: near } });
+        world.destroy();
+    });
+    
+    it('tints far sharks toward the fog color', () => {
+        const log = createDrawLog();
+        const { world, tick } = createWorld({ seed: 1, sharkCount: 1, sharkAppearance: { backColor: '#102030' } }, createCanvas(800, 600, log));
+        world.removeShark();
+        world.addShark({ x: 400, y: 300, z: 1 });
+        tick();
+        
+        expect(log.colors).not.toContain('rgba(16, 32, 48, 1)');
+        world.destroy();
+    });
+});
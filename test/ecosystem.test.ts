@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createWorld } from './helpers';
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe('ecosystem', () => {
+    it('only makes sharks hungry while the ecosystem is enabled', () => {
+        const { world, tick } = createWorld({ seed: 1, sharkCount: 2, ecosystem: { hungerRate: 0.5 } });
+        tick(60);
+        expect(world.getPopulation().averageHunger).toBe(0);
+        
+        world.updateConfig({ ecosystem: { enabled: true, huntThreshold: 1 } });
+        const before = world.getPopulation().averageHunger;
+        tick(60);
+        
+        const population = world.getPopulation();
+        expect(population.sharks).toBe(2);
+        expect(population.averageHunger).toBeCloseTo(Math.min(1, before + 0.5), 1);
+        world.getSharks().forEach(shark => expect(shark.hunger).toBeLessThanOrEqual(1));
+        world.destroy();
+    });
+    
+    it('sends hungry sharks hunting and reports the fish they eat', () => {
+        const { world, tick } = createWorld({
+            seed: 2,
+            sharkCount: 1,
+            ecosystem: { enabled: true, hungerRate: 1, huntThreshold: 0.5, detectionRange: 40 },
+            fish: { schools: 2, schoolSize: 10 }
+        });
+        const eaten = vi.fn();
+        world.on('fishEaten', eaten);
+        
+        let hunted = false;
+        for (let i = 0; i < 1200 && eaten.mock.calls.length === 0; i++) {
+            tick();
+            hunted ||= world.getPopulation().hunting > 0;
+        }
+        
+        expect(hunted).toBe(true);
+        expect(eaten).toHaveBeenCalledTimes(1);
+        const [{ shark, fish }] = eaten.mock.calls[0];
+        expect(shark.id).toBe(world.getSharks()[0].id);
+        expect(shark.hunger).toBeLessThan(1);
+        expect(fish.school).toBeGreaterThanOrEqual(0);
+        
+        const population = world.getPopulation();
+        expect(population.eaten).toBe(1);
+        expect(population.fish).toBe(19 + population.born);
+        world.destroy();
+    });
+    
+    it('breeds schools back up to their size', () => {
+        const { world, tick } = createWorld({
+            seed: 2,
+            sharkCount: 1,
+            ecosystem: { enabled: true, hungerRate: 1, huntThreshold: 0.5, fullThreshold: 0.9, satiety: 1, detectionRange: 40, breedInterval: 0.5 },
+            fish: { schools: 1, schoolSize: 10 }
+        });
+        
+        for (let i = 0; i < 1200 && world.getPopulation().eaten === 0; i++) {
+            tick();
+        }
+        expect(world.getPopulation().fish).toBe(9);
+        
+        // 吃饱后停止捕食，不再有新的鱼被吃掉
+        world.updateConfig({ ecosystem: { hungerRate: 0 } });
+        tick(120);
+        
+        const population = world.getPopulation();
+        expect(population.eaten).toBe(1);
+        expect(population.born).toBe(1);
+        expect(population.schools).toEqual([10]);
+        world.destroy();
+    });
+    
+    it('respawns a school after it has been eaten', () => {
+        const { world, tick } = createWorld({
+            seed: 2,
+            sharkCount: 1,
+            ecosystem: { enabled: true, hungerRate: 1, huntThreshold: 0.5, fullThreshold: 0, satiety: 0.01, detectionRange: 40, respawnDelay: 1 },
+            fish: { schools: 1, schoolSize: 2 }
+        });
+        
+        for (let i = 0; i < 2400 && world.getPopulation().eaten < 2; i++) {
+            tick();
+        }
+        expect(world.getPopulation().fish).toBe(0);
+        
+        tick(Math.round(60 * 1.2));
+        const population = world.getPopulation();
+        expect(population.fish).toBeGreaterThan(0);
+        expect(population.born).toBe(population.fish);
+        world.destroy();
+    });
+});
@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createWorld } from './helpers';
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe('events', () => {
+    it('stops calling a listener after off or the returned unsubscribe', () => {
+        const { world, tick } = createWorld({ seed: 1 });
+        const viaOff = vi.fn();
+        const viaUnsubscribe = vi.fn();
+        world.on('frame', viaOff);
+        const unsubscribe = world.on('frame', viaUnsubscribe);
+        
+        tick(2);
+        expect(viaOff).toHaveBeenCalledTimes(2);
+        expect(viaUnsubscribe).toHaveBeenCalledTimes(2);
+        
+        world.off('frame', viaOff);
+        unsubscribe();
+        tick(2);
+        expect(viaOff).toHaveBeenCalledTimes(2);
+        expect(viaUnsubscribe).toHaveBeenCalledTimes(2);
+        world.destroy();
+    });
+    
+    it('keeps the animation loop running when a listener throws', () => {
+        const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+        const { world, tick } = createWorld({ seed: 1 });
+        const after = vi.fn();
+        world.on('frame', () => {
+            throw new Error('listener failure');
+        });
+        world.on('frame', after);
+        
+        tick(3);
+        expect(after).toHaveBeenCalledTimes(3);
+        expect(error).toHaveBeenCalled();
+        world.destroy();
+    });
+    
+    it('reports resizes, config changes and pointer enter/leave', () => {
+        const { world } = createWorld({ seed: 1 });
+        const resize = vi.fn();
+        const configChanged = vi.fn();
+        const pointerEnter = vi.fn();
+        const pointerLeave = vi.fn();
+        world.on('resize', resize);
+        world.on('configChanged', configChanged);
+        world.on('pointerEnter', pointerEnter);
+        world.on('pointerLeave', pointerLeave);
+        
+        world.resize(400, 300);
+        world.updateConfig({ sharkSpeed: 3 });
+        world.setPointer(100, 200);
+        world.setPointer(110, 210);
+        world.clearPointer();
+        
+        expect(resize).toHaveBeenCalledWith({ width: 400, height: 300, pixelRatio: 1 });
+        expect(configChanged).toHaveBeenCalledWith({ changes: { sharkSpeed: 3 } });
+        expect(pointerEnter).toHaveBeenCalledTimes(1);
+        expect(pointerEnter).toHaveBeenCalledWith({ x: 100, y: 200 });
+        expect(pointerLeave).toHaveBeenCalledTimes(1);
+        world.destroy();
+    });
+    
+    it('drops all listeners on destroy', () => {
+        const { world } = createWorld({ seed: 1 });
+        const resize = vi.fn();
+        world.on('resize', resize);
+        world.destroy();
+        
+        world.resize(400, 300);
+        expect(resize).not.toHaveBeenCalled();
+    });
+});
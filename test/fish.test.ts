@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createCanvas, createDrawLog, createWorld } from './helpers';
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+// 鱼群中心及鱼到中心的平均距离
+function spread(fish: { x: number; y: number }[]): { x: number; y: number; distance: number } {
+    const x = fish.reduce((sum, item) => sum + item.x, 0) / fish.length;
+    const y = fish.reduce((sum, item) => sum + item.y, 0) / fish.length;
+    const distance = fish.reduce((sum, item) => sum + Math.hypot(item.x - x, item.y - y), 0) / fish.length;
+    return { x, y, distance };
+}
+
+describe('fish schools', () => {
+    it('creates the configured number of schools and fish', () => {
+        const { world } = createWorld({ seed: 1, fish: { schools: 3, schoolSize: 12 } });
+        
+        expect(world.getFish()).toHaveLength(36);
+        expect(world.getPopulation().schools).toEqual([12, 12, 12]);
+        
+        world.updateConfig({ fish: { schools: 1, schoolSize: 5 } });
+        expect(world.getFish()).toHaveLength(5);
+        world.destroy();
+    });
+    
+    it('keeps each school together while it swims', () => {
+        const { world, tick } = createWorld({ seed: 3, fish: { schools: 2, schoolSize: 15 } });
+        tick(600);
+        
+        [0, 1].forEach(school => {
+            const members = world.getFish().filter(fish => fish.school === school);
+            expect(members).toHaveLength(15);
+            expect(spread(members).distance).toBeLessThan(120);
+            members.forEach(fish => expect(Math.hypot(fish.vx, fish.vy)).toBeGreaterThan(0));
+        });
+        world.destroy();
+    });
+    
+    it('scatters away from the pointer', () => {
+        // 同一种子的两个世界，只有一个在鱼群中心放置指针
+        const run = (pointer: boolean) => {
+            const { world, tick } = createWorld({ seed: 3, sharkCount: 1, depth: { enabled: false }, fish: { schools: 1, schoolSize: 15 } });
+            tick(300);
+            const center = spread(world.getFish());
+            if (pointer) {
+                world.setPointer(center.x, center.y);
+            }
+            tick(20);
+            
+            const fish = world.getFish();
+            world.destroy();
+            return fish.reduce((sum, item) => sum + Math.hypot(item.x - center.x, item.y - center.y), 0) / fish.length;
+        };
+        
+        expect(run(true)).toBeGreaterThan(run(false) + 10);
+    });
+    
+    it('fades far schools into the background and follows background changes', () => {
+        const log = createDrawLog();
+        const { world, tick } = createWorld({
+            seed: 1,
+            backgroundGradient: { colors: ['#000000', '#000000'] },
+            depth: { fog: 1 },
+            fish: { schools: 1, colors: ['#ff0000'] }
+        }, createCanvas(800, 600, log));
+        const z = world.getFish()[0].z;
+        tick();
+        expect(log.colors).toContain(`rgba(${Math.round(255 * (1 - z))}, 0, 0, 1)`);
+        
+        world.setBackgroundGradient(['#0000ff', '#0000ff']);
+        log.colors.length = 0;
+        tick();
+        expect(log.colors).toContain(`rgba(${Math.round(255 * (1 - z))}, 0, ${Math.round(255 * z)}, 1)`);
+        world.destroy();
+    });
+});
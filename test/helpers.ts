@@ -0,0 +1,179 @@
+import { vi, type Mock } from 'vitest';
+import { OceanWorld, type OceanWorldOptions } from '../src/index';
+
+// 每帧的时间间隔（毫秒），取整数使每帧的时间差完全相同
+export const FRAME = 16;
+
+// 绘制记录：填充/描边颜色、渐变色标以及所有方法调用
+export interface DrawLog {
+    colors: string[];
+    calls: { method: string; args: unknown[] }[];
+}
+
+export function createDrawLog(): DrawLog {
+    return { colors: [], calls: [] };
+}
+
+// 没有实际绘制的 2D 上下文：createXxx 返回可添加色标的渐变，其余方法均为空操作
+// 传入 log 时记录绘制过程
+function createContext(log?: DrawLog): OffscreenCanvasRenderingContext2D {
+    const gradient = { addColorStop: (_offset: number, color: string) => log?.colors.push(color) };
+    const state: Record<PropertyKey, unknown> = {};
+    return new Proxy(state, {
+        get: (target, key) => {
+            if (key in target) return target[key];
+            if (typeof key !== 'string') return undefined;
+            return (...args: unknown[]) => {
+                log?.calls.push({ method: key, args });
+                return key.startsWith('create') ? gradient : undefined;
+            };
+        },
+        set: (target, key, value) => {
+            if ((key === 'fillStyle' || key === 'strokeStyle') && typeof value === 'string') {
+                log?.colors.push(value);
+            }
+            target[key] = value;
+            return true;
+        }
+    }) as unknown as OffscreenCanvasRenderingContext2D;
+}
+
+// 与 OffscreenCanvas 接口一致的画布，构造时以位图尺寸作为逻辑尺寸
+export function createCanvas(width: number = 800, height: number = 600, log?: DrawLog): OffscreenCanvas {
+    return { width, height, getContext: () => createContext(log) } as unknown as OffscreenCanvas;
+}
+
+export interface TestWorld {
+    world: OceanWorld;
+    /** 推进若干帧，每帧 step 毫秒（默认 FRAME） */
+    tick(frames?: number, step?: number): void;
+}
+
+// 创建由测试手动驱动动画循环的海洋世界
+// requestAnimationFrame 与 performance.now 是全局替身，同一时间只应驱动一个世界
+export function createWorld(options: OceanWorldOptions = {}, canvas: OffscreenCanvas | HTMLCanvasElement = createCanvas()): TestWorld {
+    let now = 0;
+    let pending: FrameRequestCallback | null = null;
+    
+    vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => {
+        pending = callback;
+        return 1;
+    });
+    vi.stubGlobal('cancelAnimationFrame', () => {
+        pending = null;
+    });
+    vi.spyOn(performance, 'now').mockImplementation(() => now);
+    
+    const world = new OceanWorld(canvas, options);
+    return {
+        world,
+        tick(frames = 1, step = FRAME) {
+            for (let i = 0; i < frames; i++) {
+                now += step;
+                const callback = pending;
+                pending = null;
+                callback?.(now);
+            }
+        }
+    };
+}
+
+export interface CanvasElementOptions {
+    /** 样式表指定的布局尺寸，未指定时布局尺寸跟随位图尺寸 */
+    cssWidth?: number;
+    cssHeight?: number;
+    /** 位图尺寸（canvas 的 width/height 属性） */
+    width?: number;
+    height?: number;
+}
+
+export interface FakeResizeObserver {
+    observed: unknown[];
+    disconnected: boolean;
+    /** 模拟一次尺寸变化回调 */
+    trigger(): void;
+}
+
+export interface TestBrowser {
+    window: { devicePixelRatio: number; addEventListener: Mock; removeEventListener: Mock };
+    resizeObservers: FakeResizeObserver[];
+    createCanvasElement(options?: CanvasElementOptions): HTMLCanvasElement;
+}
+
+// 模拟浏览器主线程环境：canvas 元素、window、document 与 ResizeObserver
+// canvas 元素的布局尺寸依次取内联样式、样式表尺寸和位图尺寸，与浏览器的优先级一致
+export function stubBrowser(devicePixelRatio: number = 1): TestBrowser {
+    const resizeObservers: FakeResizeObserver[] = [];
+    
+    class FakeCanvasElement {
+        width: number;
+        height: number;
+        style = { width: '', height: '' };
+        addEventListener = vi.fn();
+        removeEventListener = vi.fn();
+        
+        constructor(private readonly options: CanvasElementOptions) {
+            this.width = options.width ?? 300;
+            this.height = options.height ?? 150;
+        }
+        
+        get offsetWidth(): number {
+            return parseFloat(this.style.width) || (this.options.cssWidth ?? this.width);
+        }
+        
+        get offsetHeight(): number {
+            return parseFloat(this.style.height) || (this.options.cssHeight ?? this.height);
+        }
+        
+        getContext() {
+            return createContext();
+        }
+        
+        transferControlToOffscreen() {
+            return createCanvas(this.width, this.height);
+        }
+        
+        getBoundingClientRect() {
+            return { left: 0, top: 0, right: this.offsetWidth, bottom: this.offsetHeight };
+        }
+    }
+    
+    class ResizeObserverStub implements FakeResizeObserver {
+        observed: unknown[] = [];
+        disconnected = false;
+        
+        constructor(private readonly callback: () => void) {
+            resizeObservers.push(this);
+        }
+        
+        observe(target: unknown) {
+            this.observed.push(target);
+        }
+        
+        disconnect() {
+            this.disconnected = true;
+        }
+        
+        trigger() {
+            this.callback();
+        }
+    }
+    
+    const windowStub = { devicePixelRatio, addEventListener: vi.fn(), removeEventListener: vi.fn() };
+    vi.stubGlobal('HTMLCanvasElement', FakeCanvasElement);
+    vi.stubGlobal('ResizeObserver', ResizeObserverStub);
+    vi.stubGlobal('window', windowStub);
+    vi.stubGlobal('navigator', { maxTouchPoints: 0 });
+    vi.stubGlobal('document', {
+        hidden: false,
+        addEventListener: vi.fn(),
+        removeEventListener: vi.fn(),
+        createElement: () => createCanvas(1, 1)
+    });
+    
+    return {
+        window: windowStub,
+        resizeObservers,
+        createCanvasElement: (options = {}) => new FakeCanvasElement(options) as unknown as HTMLCanvasElement
+    };
+}
@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { OceanWorld } from '../src/index';
+import { createWorld } from './helpers';
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+// 在画布上按网格查找第一个命中气泡的位置
+function findBubblePoint(world: OceanWorld): { x: number; y: number } | null {
+    for (let y = 0; y < 600; y += 2) {
+        for (let x = 0; x < 800; x += 2) {
+            if (world.getEntityAt(x, y)?.type === 'bubble') {
+                return { x, y };
+            }
+        }
+    }
+    return null;
+}
+
+describe('hit-testing and taps', () => {
+    it('selects the shark under the pointer and deselects on empty water', () => {
+        const { world } = createWorld({ seed: 1, sharkCount: 1, enableBubbles: false });
+        const [shark] = world.getSharks();
+        const selected = vi.fn();
+        const deselected = vi.fn();
+        world.on('sharkSelected', selected);
+        world.on('sharkDeselected', deselected);
+        
+        const entity = world.tap(shark.x, shark.y);
+        expect(entity).toMatchObject({ type: 'shark', shark: { id: shark.id } });
+        expect(world.getSelectedShark()?.id).toBe(shark.id);
+        expect(selected).toHaveBeenCalledTimes(1);
+        
+        const emptyX = shark.x > 400 ? 50 : 750;
+        expect(world.tap(emptyX, 590)).toBeNull();
+        expect(world.getSelectedShark()).toBeNull();
+        expect(deselected).toHaveBeenCalledWith({ id: shark.id });
+        world.destroy();
+    });
+    
+    it('pops the bubble under the pointer and reports its snapshot', () => {
+        const { world } = createWorld({ seed: 3, sharkCount: 1 });
+        const point = findBubblePoint(world)!;
+        expect(point).not.toBeNull();
+        const popped = vi.fn();
+        world.on('bubblePopped', popped);
+        const before = world.getEntityAt(point.x, point.y);
+        
+        const entity = world.tap(point.x, point.y);
+        expect(entity).toEqual(before);
+        expect(popped).toHaveBeenCalledWith({ bubble: entity?.type === 'bubble' ? entity.bubble : null });
+        expect(world.getEntityAt(point.x, point.y)).not.toEqual(before);
+        world.destroy();
+    });
+    
+    it('ignores taps when interaction is disabled', () => {
+        const { world } = createWorld({ seed: 1, sharkCount: 1, enableInteraction: false });
+        const [shark] = world.getSharks();
+        
+        expect(world.tap(shark.x, shark.y)).toBeNull();
+        expect(world.getSelectedShark()).toBeNull();
+        expect(world.getEntityAt(shark.x, shark.y)?.type).toBe('shark');
+        world.destroy();
+    });
+});
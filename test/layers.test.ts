@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createWorld } from './helpers';
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe('layer pipeline', () => {
+    it('inserts custom layers between the built-in ones by zIndex', () => {
+        const { world } = createWorld({ seed: 1 });
+        world.addLayer({ id: 'logo', zIndex: 250 });
+        world.addLayer({ id: 'hud', zIndex: 1000 });
+        
+        expect(world.getLayers().map(layer => layer.id)).toEqual(['background', 'seabed', 'waves', 'logo', 'bubbles', 'fish', 'sharks', 'hud']);
+        expect(() => world.addLayer({ id: 'hud' })).toThrow("OceanWorld layer 'hud' already exists");
+        world.destroy();
+    });
+    
+    it('updates and draws custom layers every frame in order', () => {
+        const { world, tick } = createWorld({ seed: 1 });
+        const calls: string[] = [];
+        world.addLayer({
+            id: 'top',
+            zIndex: 500,
+            update: (dt, state) => calls.push(`update top ${dt > 0} ${state.width}`),
+            draw: () => calls.push('draw top')
+        });
+        world.addLayer({
+            id: 'bottom',
+            zIndex: -1,
+            draw: (ctx, state) => calls.push(`draw bottom ${typeof ctx.fillRect} ${state.sharks.length}`)
+        });
+        tick();
+        
+        expect(calls).toEqual(['update top true 800', 'draw bottom function 1', 'draw top']);
+        world.destroy();
+    });
+    
+    it('reorders, disables and removes layers', () => {
+        const { world, tick } = createWorld({ seed: 1 });
+        const draw = vi.fn();
+        world.addLayer({ id: 'custom', draw });
+        
+        expect(world.setLayerZIndex('sharks', -10)).toBe(true);
+        expect(world.getLayers()[0].id).toBe('sharks');
+        
+        expect(world.setLayerEnabled('custom', false)).toBe(true);
+        expect(world.setLayerEnabled('waves', false)).toBe(true);
+        tick();
+        expect(draw).not.toHaveBeenCalled();
+        
+        expect(world.removeLayer('waves')).toBe(false);
+        expect(world.removeLayer('custom')).toBe(true);
+        expect(world.getLayers().some(layer => layer.id === 'custom')).toBe(false);
+        expect(world.setLayerEnabled('custom', true)).toBe(false);
+        world.destroy();
+    });
+    
+    it('isolates errors thrown by custom layers', () => {
+        const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+        const { world, tick } = createWorld({ seed: 1 });
+        const after = vi.fn();
+        world.addLayer({ id: 'broken', zIndex: 10, draw: () => { throw new Error('boom'); } });
+        world.addLayer({ id: 'after', zIndex: 20, draw: after });
+        
+        tick(2);
+        expect(after).toHaveBeenCalledTimes(2);
+        expect(error).toHaveBeenCalledWith("Error in OceanWorld layer 'broken' draw:", expect.any(Error));
+        world.destroy();
+    });
+});
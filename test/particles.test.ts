@@ -0,0 +1,56 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createWorld } from './helpers';
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe('bubble particles', () => {
+    it('never exceeds the particle pool capacity', () => {
+        const { world, tick } = createWorld({ seed: 1, bubbles: { maxParticles: 12, vents: [{ x: 0.5, rate: 20 }] } });
+        for (let i = 0; i < 20; i++) {
+            world.tap(100 + i * 30, 400);
+            tick(10);
+            expect(world.getStats().particleCount).toBeLessThanOrEqual(12);
+        }
+        world.destroy();
+    });
+    
+    it('pops bubbles at the water surface instead of rising into the sky', () => {
+        const { world, tick } = createWorld({ seed: 1, waterLevel: 0.3 });
+        const recycled = vi.fn();
+        world.on('bubbleRecycled', recycled);
+        
+        for (let i = 0; i < 60; i++) {
+            tick(10);
+            world.serialize().bubbles.forEach(bubble => expect(bubble.y).toBeGreaterThan(600 * 0.3 - 20));
+        }
+        expect(recycled).toHaveBeenCalled();
+        world.destroy();
+    });
+    
+    it('emits bubbles from seabed vents around their position', () => {
+        const { world, tick } = createWorld({ seed: 1, sharkCount: 1, bubbles: { vents: [{ x: 0.5, rate: 10, spread: 10 }], gillBubbles: false } });
+        tick(60);
+        
+        const vented = world.serialize().bubbles.filter(bubble => bubble.source === 'vent');
+        expect(vented.length).toBeGreaterThan(0);
+        vented.forEach(bubble => expect(Math.abs(bubble.x - 400)).toBeLessThanOrEqual(10));
+        world.destroy();
+    });
+    
+    it('bursts bubbles from taps on empty water and from shark gills', () => {
+        const { world, tick } = createWorld({ seed: 1, sharkCount: 2, bubbles: { vents: [], gillInterval: 0.5, pointerBurstCount: 6 } });
+        const [shark] = world.getSharks();
+        const emptyX = shark.x > 400 ? 50 : 750;
+        world.tap(emptyX, 580);
+        
+        const sources = world.serialize().bubbles.map(bubble => bubble.source);
+        expect(sources.filter(source => source === 'pointer')).toHaveLength(6);
+        
+        tick(180);
+        expect(world.serialize().bubbles.some(bubble => bubble.source === 'gill')).toBe(true);
+        world.destroy();
+    });
+});
@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { FRAME, createWorld, type TestWorld } from './helpers';
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+// 添加一个每帧消耗 cost 毫秒的绘制层，返回修改耗时的函数
+function addSlowLayer({ world }: TestWorld, cost: number): (value: number) => void {
+    const now = vi.mocked(performance.now).getMockImplementation()!;
+    let spent = 0;
+    vi.mocked(performance.now).mockImplementation(() => now() + spent);
+    world.addLayer({ id: 'slow', draw: () => { spent += cost; } });
+    return value => {
+        cost = value;
+    };
+}
+
+describe('stats and adaptive quality', () => {
+    it('reports frame rate, frame time and per-layer timings', () => {
+        const scene = createWorld({ seed: 1, sharkCount: 2 });
+        addSlowLayer(scene, 5);
+        scene.tick(120);
+        
+        const stats = scene.world.getStats();
+        expect(stats.fps).toBeCloseTo(1000 / FRAME, 0);
+        expect(stats.frameTime).toBeCloseTo(5, 0);
+        expect(stats.layers.find(layer => layer.id === 'slow')!.draw).toBeCloseTo(5, 0);
+        expect(stats).toMatchObject({ qualityLevel: 0, sharkCount: 2, pixelRatio: 1 });
+        scene.world.destroy();
+    });
+    
+    it('lowers the quality level while frames exceed the budget and restores it afterwards', () => {
+        const scene = createWorld({ seed: 1, adaptiveQuality: { enabled: true, frameBudget: 12, maxLevel: 2 } });
+        const setCost = addSlowLayer(scene, 30);
+        const changed = vi.fn();
+        scene.world.on('qualityChanged', changed);
+        
+        scene.tick(600);
+        expect(scene.world.getQualityLevel()).toBe(2);
+        expect(changed).toHaveBeenCalledWith(expect.objectContaining({ level: 1, previousLevel: 0 }));
+        
+        setCost(0);
+        scene.tick(2000);
+        expect(scene.world.getQualityLevel()).toBe(0);
+        scene.world.destroy();
+    });
+    
+    it('keeps the quality level fixed when adaptive quality is disabled', () => {
+        const scene = createWorld({ seed: 1 });
+        addSlowLayer(scene, 30);
+        scene.tick(300);
+        expect(scene.world.getQualityLevel()).toBe(0);
+        
+        scene.world.setQualityLevel(9);
+        expect(scene.world.getStats().qualityLevel).toBe(4);
+        scene.world.destroy();
+    });
+});
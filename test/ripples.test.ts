@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createCanvas, createDrawLog, createWorld, type DrawLog } from './helpers';
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+// 取出最近一帧绘制的第一条海浪波面上各采样点偏离 baseY 的最大距离
+function maxSurfaceOffset(log: DrawLog, baseY: number): number {
+    const end = log.calls.findIndex(call => call.method === 'lineTo' && call.args[0] === 800 && call.args[1] === 600);
+    if (end === -1) {
+        throw new Error('No wave was drawn in this frame');
+    }
+    let start = end;
+    while (start > 0 && log.calls[start].method !== 'moveTo') start--;
+    
+    return log.calls.slice(start, end).reduce((max, call) => Math.max(max, Math.abs(Number(call.args[1]) - baseY)), 0);
+}
+
+describe('water surface ripples', () => {
+    it('ripples the surface where a drop lands and settles again', () => {
+        const log = createDrawLog();
+        // 海况为 0 时波面平直，波面的起伏全部来自水面模拟
+        const { world, tick } = createWorld({ seed: 1, seaState: 0, enableBubbles: false, waves: [{}] }, createCanvas(800, 600, log));
+        world.removeShark();
+        const baseY = world.serialize().waves[0].y;
+        
+        const frame = () => {
+            log.calls.length = 0;
+            tick();
+            return maxSurfaceOffset(log, baseY);
+        };
+        
+        expect(frame()).toBe(0);
+        
+        world.tap(400, 20);
+        let peak = 0;
+        for (let i = 0; i < 120; i++) {
+            peak = Math.max(peak, frame());
+        }
+        expect(peak).toBeGreaterThan(1);
+        
+        tick(3000);
+        expect(frame()).toBeLessThan(0.1);
+        world.destroy();
+    });
+    
+    it('leaves the surface flat when ripples are disabled', () => {
+        const log = createDrawLog();
+        const { world, tick } = createWorld({ seed: 1, seaState: 0, enableBubbles: false, enableRipples: false, waves: [{}] }, createCanvas(800, 600, log));
+        world.removeShark();
+        const baseY = world.serialize().waves[0].y;
+        
+        world.tap(400, 20);
+        world.setPointer(100, baseY);
+        world.setPointer(700, baseY);
+        tick(120);
+        log.calls.length = 0;
+        tick();
+        expect(maxSurfaceOffset(log, baseY)).toBe(0);
+        world.destroy();
+    });
+});
@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createCanvas, createDrawLog, createWorld } from './helpers';
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe('seabed', () => {
+    it('generates a reproducible layout only when enabled', () => {
+        const first = createWorld({ seed: 4, enableSeabed: true, seabed: { rockDensity: 1, kelpDensity: 1, coralDensity: 1 } });
+        const layout = first.world.serialize().seabed;
+        first.world.destroy();
+        expect(layout?.rocks.length).toBeGreaterThan(0);
+        expect(layout?.kelp.length).toBeGreaterThan(0);
+        expect(layout?.corals.length).toBeGreaterThan(0);
+        
+        const second = createWorld({ seed: 4, enableSeabed: true, seabed: { rockDensity: 1, kelpDensity: 1, coralDensity: 1 } });
+        expect(second.world.serialize().seabed).toEqual(layout);
+        second.world.destroy();
+        
+        const disabled = createWorld({ seed: 4 });
+        expect(disabled.world.serialize().seabed).toBeNull();
+        disabled.world.destroy();
+    });
+    
+    it('keeps sharks above the sea floor', () => {
+        const { world, tick } = createWorld({ seed: 1, sharkCount: 1, enableSeabed: true, seabed: { height: 0.3 } });
+        const [shark] = world.getSharks();
+        world.moveSharkTo(shark.id, 400, 595);
+        
+        for (let i = 0; i < 60; i++) {
+            tick(10);
+            expect(world.getShark(shark.id)!.y).toBeLessThan(600 - 600 * 0.3 * 0.2);
+        }
+        world.destroy();
+    });
+    
+    it('draws with the configured colors and follows color changes', () => {
+        const log = createDrawLog();
+        const { world, tick } = createWorld({ seed: 1, enableSeabed: true, seabed: { rockDensity: 1, rockColor: '#654321' } }, createCanvas(800, 600, log));
+        tick();
+        expect(log.colors).toContain('#654321');
+        
+        world.updateConfig({ seabed: { rockColor: '#123456' } });
+        log.colors.length = 0;
+        tick();
+        expect(log.colors).toContain('#123456');
+        expect(log.colors).not.toContain('#654321');
+        world.destroy();
+    });
+});
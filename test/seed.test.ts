@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SeededRandom } from '../src/index';
+import { createWorld } from './helpers';
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+// 运行一段时间后的完整场景，作为比较是否可复现的依据
+function runScene(seed: number): string {
+    const { world, tick } = createWorld({
+        seed,
+        sharkCount: 4,
+        enableSeabed: true,
+        fish: { schools: 2, schoolSize: 10 }
+    });
+    tick(180);
+    const snapshot = JSON.stringify(world.serialize());
+    world.destroy();
+    return snapshot;
+}
+
+describe('SeededRandom', () => {
+    it('produces the same sequence for the same seed', () => {
+        const a = new SeededRandom(7);
+        const b = new SeededRandom(7);
+        const sequence = Array.from({ length: 20 }, () => a.next());
+        expect(Array.from({ length: 20 }, () => b.next())).toEqual(sequence);
+        expect(sequence.every(value => value >= 0 && value < 1)).toBe(true);
+    });
+    
+    it('resumes from a saved state', () => {
+        const random = new SeededRandom(3);
+        random.next();
+        const state = random.getState();
+        const expected = [random.next(), random.next()];
+        
+        random.setState(state);
+        expect([random.next(), random.next()]).toEqual(expected);
+    });
+});
+
+describe('seeded scenes', () => {
+    it('generates identical scenes from the same seed', () => {
+        expect(runScene(42)).toBe(runScene(42));
+    });
+    
+    it('generates different scenes from different seeds', () => {
+        expect(runScene(42)).not.toBe(runScene(43));
+    });
+    
+    it('turns off adaptive quality by default when a seed is given', () => {
+        const seeded = createWorld({ seed: 1 });
+        expect(seeded.world.serialize().config.adaptiveQuality?.enabled).toBe(false);
+        seeded.world.destroy();
+        
+        const unseeded = createWorld();
+        expect(unseeded.world.serialize().config.adaptiveQuality?.enabled).toBe(true);
+        unseeded.world.destroy();
+        
+        const explicit = createWorld({ seed: 1, adaptiveQuality: { enabled: true } });
+        expect(explicit.world.serialize().config.adaptiveQuality?.enabled).toBe(true);
+        explicit.world.destroy();
+    });
+    
+    it('falls back to defaults for options passed as undefined', () => {
+        const { world } = createWorld({ seed: undefined, theme: undefined, maxPixelRatio: undefined });
+        const config = world.serialize().config;
+        expect(Number.isFinite(world.getSeed())).toBe(true);
+        expect(config.seed).toBe(world.getSeed());
+        expect(config.theme).toBe('classic');
+        expect(config.maxPixelRatio).toBe(2);
+        world.destroy();
+    });
+    
+    it('replays the scene after reseeding', () => {
+        const { world, tick } = createWorld({ seed: 5, sharkCount: 3 });
+        world.reseed(9);
+        tick(60);
+        const first = world.getSharks();
+        
+        world.reseed(9);
+        tick(60);
+        expect(world.getSharks()).toEqual(first);
+        world.destroy();
+    });
+});
@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { OceanWorldWorker } from '../src/index';
+import { createWorld, stubBrowser } from './helpers';
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe('canvas sizing', () => {
+    it('pins the style size of a canvas without CSS size so high pixel ratios do not grow it', () => {
+        const browser = stubBrowser(2);
+        const canvas = browser.createCanvasElement({ width: 400, height: 300 });
+        const { world } = createWorld({ seed: 1 }, canvas);
+        
+        expect(canvas.style.width).toBe('400px');
+        expect(canvas.style.height).toBe('300px');
+        expect(canvas.width).toBe(800);
+        
+        browser.resizeObservers[0].trigger();
+        browser.resizeObservers[0].trigger();
+        expect(world.getSize()).toEqual({ width: 400, height: 300, pixelRatio: 2 });
+        world.destroy();
+    });
+    
+    it('leaves CSS sizes untouched and follows the layout size', () => {
+        const browser = stubBrowser(2);
+        const canvas = browser.createCanvasElement({ cssWidth: 640, cssHeight: 480 });
+        const { world } = createWorld({ seed: 1 }, canvas);
+        
+        expect(canvas.style.width).toBe('');
+        expect(canvas.style.height).toBe('');
+        expect(world.getSize()).toEqual({ width: 640, height: 480, pixelRatio: 2 });
+        
+        world.resize(320, 240, 2);
+        expect(canvas.style.width).toBe('');
+        world.destroy();
+    });
+    
+    it('pins the style size before handing a canvas without CSS size to a worker', () => {
+        const browser = stubBrowser(2);
+        const canvas = browser.createCanvasElement({ width: 400, height: 300 });
+        const worker = { postMessage: vi.fn(), terminate: vi.fn() } as unknown as Worker;
+        const ocean = new OceanWorldWorker(canvas, worker);
+        
+        expect(canvas.style.width).toBe('400px');
+        expect(canvas.style.height).toBe('300px');
+        ocean.destroy();
+    });
+});
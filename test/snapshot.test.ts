@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { OceanWorld, type OceanWorldOptions } from '../src/index';
+import { createCanvas, createWorld } from './helpers';
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+const options: OceanWorldOptions = {
+    seed: 11,
+    sharkCount: 3,
+    enableSeabed: true,
+    fish: { schools: 2, schoolSize: 8 },
+    ecosystem: { enabled: true },
+    swimZones: { breaching: true, breachInterval: 2 }
+};
+
+describe('scene snapshots', () => {
+    it('round-trips through serialize and load', () => {
+        const { world, tick } = createWorld(options);
+        tick(240);
+        const snapshot = world.serialize();
+        
+        world.load(JSON.parse(JSON.stringify(snapshot)));
+        expect(world.serialize()).toEqual(snapshot);
+        world.destroy();
+    });
+    
+    it('cancels a running theme transition when a snapshot is loaded', () => {
+        const { world, tick } = createWorld({ seed: 1 });
+        tick(10);
+        const snapshot = world.serialize();
+        
+        world.setTheme('sunset', { duration: 2000 });
+        tick(30);
+        world.load(snapshot);
+        tick(200);
+        
+        expect(world.serialize().config.bubbleColor).toBe(snapshot.config.bubbleColor);
+        expect(world.serialize().config.backgroundGradient).toEqual(snapshot.config.backgroundGradient);
+        expect(world.getTheme()).toBe(snapshot.config.theme);
+        world.destroy();
+    });
+    
+    it('rescales the scene when restored onto a canvas of a different size', () => {
+        const { world, tick } = createWorld(options);
+        tick(60);
+        const snapshot = world.serialize();
+        world.destroy();
+        
+        const { world: restored } = createWorld(snapshot.config, createCanvas(400, 300));
+        restored.load(snapshot);
+        restored.getSharks().forEach((shark, index) => {
+            expect(shark.x).toBeCloseTo(snapshot.sharks[index].x / 2);
+            expect(shark.y).toBeCloseTo(snapshot.sharks[index].y / 2);
+        });
+        restored.destroy();
+    });
+    
+    it('rejects invalid snapshots and unknown versions', () => {
+        const { world } = createWorld(options);
+        const snapshot = world.serialize();
+        expect(() => world.load(null as unknown as ReturnType<OceanWorld['serialize']>)).toThrow('Invalid OceanWorld snapshot');
+        expect(() => world.load({ ...snapshot, version: snapshot.version + 1 })).toThrow('Unsupported OceanWorld snapshot version');
+        world.destroy();
+    });
+    
+    it('creates a world from a snapshot', () => {
+        const { world, tick } = createWorld(options);
+        tick(30);
+        const snapshot = world.serialize();
+        const sharks = world.getSharks();
+        world.destroy();
+        
+        const restored = OceanWorld.fromSnapshot(createCanvas(), snapshot);
+        expect(restored.getSharks()).toEqual(sharks);
+        restored.destroy();
+    });
+});
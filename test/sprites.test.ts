@@ -0,0 +1,55 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createCanvas, createWorld } from './helpers';
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+// 以测试画布代替 OffscreenCanvas，返回记录创建次数的构造函数
+function stubOffscreenCanvas() {
+    const constructor = vi.fn(function (width: number, height: number) {
+        return createCanvas(width, height);
+    });
+    vi.stubGlobal('OffscreenCanvas', constructor);
+    return constructor;
+}
+
+describe('shark sprites', () => {
+    it('renders each shark sprite once and reuses it on later frames', () => {
+        const offscreen = stubOffscreenCanvas();
+        const { world, tick } = createWorld({ seed: 1, sharkCount: 3, depth: { enabled: false } });
+        tick();
+        const created = offscreen.mock.calls.length;
+        expect(created).toBeGreaterThan(0);
+        
+        tick(30);
+        expect(offscreen.mock.calls.length).toBe(created);
+        world.destroy();
+    });
+    
+    it('does not build sprites for the per-frame palettes of a theme transition', () => {
+        const offscreen = stubOffscreenCanvas();
+        const { world, tick } = createWorld({ seed: 1, sharkCount: 3, depth: { enabled: false } });
+        tick();
+        
+        world.setTheme('night', { duration: 500 });
+        const before = offscreen.mock.calls.length;
+        tick(20);
+        expect(offscreen.mock.calls.length).toBe(before);
+        
+        // 过渡结束后按目标主题的调色板重新生成精灵
+        tick(20);
+        expect(offscreen.mock.calls.length).toBeGreaterThan(before);
+        world.destroy();
+    });
+    
+    it('draws vector sharks when the sprite cache is disabled', () => {
+        const offscreen = stubOffscreenCanvas();
+        const { world, tick } = createWorld({ seed: 1, sharkCount: 3, spriteCache: false });
+        tick(5);
+        
+        expect(offscreen.mock.calls.every(([width, height]) => width === 1 && height === 1)).toBe(true);
+        world.destroy();
+    });
+});
@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { OceanWorldOptions } from '../src/index';
+import { FRAME, createWorld } from './helpers';
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+// 两个角度之间的最小差值
+function angleBetween(a: number, b: number): number {
+    const difference = Math.abs(a - b) % (Math.PI * 2);
+    return Math.min(difference, Math.PI * 2 - difference);
+}
+
+describe('steering physics', () => {
+    it('limits how fast a shark can turn around', () => {
+        const maxTurnRate = 2;
+        const { world, tick } = createWorld({ seed: 1, sharkCount: 1, steering: { maxTurnRate } });
+        world.removeShark();
+        const id = world.addShark({ x: 200, y: 300 });
+        world.moveSharkTo(id, 700, 300);
+        tick(40);
+        
+        world.moveSharkTo(id, 50, 300);
+        let heading = Math.atan2(world.getShark(id)!.vy, world.getShark(id)!.vx);
+        for (let i = 0; i < 60; i++) {
+            tick();
+            const { vx, vy } = world.getShark(id)!;
+            const next = Math.atan2(vy, vx);
+            expect(angleBetween(next, heading)).toBeLessThanOrEqual(maxTurnRate * FRAME / 1000 + 1e-6);
+            heading = next;
+        }
+        world.destroy();
+    });
+    
+    it('slows down on arrival and settles without jitter', () => {
+        const { world, tick } = createWorld({ seed: 1, sharkCount: 1 });
+        const [shark] = world.getSharks();
+        world.moveSharkTo(shark.id, 400, 350);
+        tick(600);
+        
+        const arrived = world.getShark(shark.id)!;
+        for (let i = 0; i < 60; i++) {
+            tick();
+            const current = world.getShark(shark.id)!;
+            expect(Math.hypot(current.x - 400, current.y - 350)).toBeLessThanOrEqual(5);
+            expect(Math.hypot(current.vx, current.vy)).toBeLessThan(arrived.speed * 60 * 0.1);
+        }
+        world.destroy();
+    });
+    
+    it('keeps sharks heading for the same point apart', () => {
+        const closest = (options: OceanWorldOptions) => {
+            const { world, tick } = createWorld({ seed: 1, sharkCount: 1, ...options });
+            world.removeShark();
+            const ids = [0, 1, 2].map(i => world.addShark({ x: 200 + i * 150, y: 250 + i * 60, size: 40 }));
+            ids.forEach(id => world.moveSharkTo(id, 400, 350));
+            tick(600);
+            
+            const sharks = world.getSharks();
+            world.destroy();
+            let min = Infinity;
+            sharks.forEach((a, i) => sharks.slice(i + 1).forEach(b => {
+                min = Math.min(min, Math.hypot(a.x - b.x, a.y - b.y));
+            }));
+            return min;
+        };
+        
+        expect(closest({ steering: { separation: 0 } })).toBeLessThan(10);
+        expect(closest({})).toBeGreaterThan(40);
+    });
+});
@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { OceanWorld } from '../src/index';
+import { createWorld } from './helpers';
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe('themes', () => {
+    it('ships the built-in presets', () => {
+        expect(OceanWorld.getThemeNames()).toEqual(expect.arrayContaining(['classic', 'tropical', 'deepSea', 'arctic', 'sunset', 'night']));
+    });
+    
+    it('blends colors over the transition without resetting the waves', () => {
+        const { world, tick } = createWorld({ seed: 1 });
+        tick(10);
+        const before = world.serialize();
+        
+        world.setTheme('night', { duration: 1000 });
+        expect(world.getTheme()).toBe('night');
+        tick(30);
+        const during = world.serialize();
+        expect(during.config.bubbleColor).not.toBe(before.config.bubbleColor);
+        during.waves.forEach((wave, index) => expect(wave.time).toBeGreaterThan(before.waves[index].time));
+        
+        tick(60);
+        const after = world.serialize();
+        expect(after.config.bubbleColor).not.toBe(during.config.bubbleColor);
+        tick(10);
+        expect(world.serialize().config.bubbleColor).toBe(after.config.bubbleColor);
+        world.destroy();
+    });
+    
+    it('switches instantly without a duration and accepts registered themes', () => {
+        OceanWorld.registerTheme('brand', {
+            backgroundGradient: { colors: ['#000000', '#112233'] },
+            waveColors: ['#abcdef'],
+            bubbleColor: '#fedcba',
+            sharkAppearance: { backColor: '#333333' }
+        });
+        const { world } = createWorld({ seed: 1 });
+        
+        world.setTheme('brand');
+        expect(world.getWaveColors()).toEqual(['#abcdef']);
+        expect(world.serialize().config.bubbleColor).toBe('#fedcba');
+        expect(world.getSharkAppearance().backColor).toBe('#333333');
+        expect(() => world.setTheme('missing')).toThrow("Theme 'missing' is not registered");
+        world.destroy();
+    });
+    
+    it('reports wave color removal only for valid indexes', () => {
+        const { world } = createWorld({ seed: 1 });
+        const configChanged = vi.fn();
+        world.on('configChanged', configChanged);
+        const colors = world.getWaveColors();
+        
+        world.removeWaveColor(colors.length);
+        expect(configChanged).not.toHaveBeenCalled();
+        
+        world.removeWaveColor(0);
+        expect(world.getWaveColors()).toEqual(colors.slice(1));
+        expect(configChanged).toHaveBeenCalledWith({ changes: { waveColors: colors.slice(1) } });
+        world.destroy();
+    });
+});
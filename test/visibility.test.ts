@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { FRAME, createWorld } from './helpers';
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe('visibility and reduced motion', () => {
+    it('stops requesting frames while hidden and resumes without a time jump', () => {
+        const { world, tick } = createWorld({ seed: 1 });
+        const changed = vi.fn();
+        world.on('visibilityChanged', changed);
+        tick(5);
+        
+        world.setVisible(false);
+        expect(changed).toHaveBeenLastCalledWith({ visible: false });
+        const hiddenAt = world.getSimulationTime();
+        tick(60);
+        expect(world.getSimulationTime()).toBe(hiddenAt);
+        
+        world.setVisible(true);
+        expect(changed).toHaveBeenLastCalledWith({ visible: true });
+        tick(5);
+        expect(world.getSimulationTime() - hiddenAt).toBeGreaterThan(0);
+        expect(world.getSimulationTime() - hiddenAt).toBeLessThanOrEqual(5 * FRAME);
+        world.destroy();
+    });
+    
+    it('keeps animating while hidden when pauseWhenHidden is off', () => {
+        const { world, tick } = createWorld({ seed: 1, pauseWhenHidden: false });
+        world.setVisible(false);
+        tick(10);
+        expect(world.getSimulationTime()).toBeGreaterThan(0);
+        world.destroy();
+    });
+    
+    it('slows the animation down when reduced motion is requested', () => {
+        const { world, tick } = createWorld({ seed: 1 });
+        expect(world.isReducedMotion()).toBe(false);
+        
+        world.setPrefersReducedMotion(true);
+        expect(world.isReducedMotion()).toBe(true);
+        tick(10);
+        expect(world.getSimulationTime()).toBeCloseTo(10 * FRAME * 0.35);
+        world.destroy();
+    });
+    
+    it('draws single frames on change only in static reduced motion mode', () => {
+        const { world, tick } = createWorld({ seed: 1, reducedMotion: { enabled: true, mode: 'static' } });
+        // 构造时已绘制第一帧，之后不再请求新帧
+        const frame = vi.fn();
+        world.on('frame', frame);
+        tick(10);
+        expect(frame).not.toHaveBeenCalled();
+        
+        world.resize(400, 300);
+        tick(10);
+        expect(frame).toHaveBeenCalledTimes(1);
+        expect(world.getSimulationTime()).toBe(0);
+        world.destroy();
+    });
+});
@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createWorld } from './helpers';
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe('wave layers', () => {
+    it('builds waves from explicit layer definitions', () => {
+        const { world } = createWorld({
+            seed: 1,
+            waterLevel: 0.25,
+            waves: [
+                { amplitude: 8, wavelength: 200, speed: 40, direction: 1, offset: 5, color: '#123456', opacity: 0.5 },
+                { shape: 'gerstner', steepness: 2, components: [{ amplitude: 4, wavelength: 100 }, { amplitude: 2, wavelength: 50, speed: 10, phase: 1 }] }
+            ]
+        });
+        const [first, second] = world.serialize().waves;
+        
+        expect(first).toMatchObject({ y: 155, color: '#123456', hasCustomColor: true, opacity: 0.5, shape: 'sine', direction: 1 });
+        expect(first.components).toEqual([{ amplitude: 8, wavenumber: Math.PI * 2 / 200, speed: 40, phase: 0 }]);
+        
+        expect(second).toMatchObject({ shape: 'gerstner', steepness: 1, hasCustomColor: false, direction: -1 });
+        expect(second.components.map(component => component.amplitude)).toEqual([4, 2]);
+        expect(second.components[1]).toMatchObject({ wavenumber: Math.PI * 2 / 50, speed: 10, phase: 1 });
+        world.destroy();
+    });
+    
+    it('falls back to per-index defaults when no layers are given', () => {
+        const { world } = createWorld({ seed: 1, waveCount: 3 });
+        const waves = world.serialize().waves;
+        
+        expect(waves).toHaveLength(3);
+        expect(waves.map(wave => wave.offset)).toEqual([0, 15, 30]);
+        expect(waves.map(wave => wave.components[0].amplitude)).toEqual([10, 15, 20]);
+        world.destroy();
+    });
+    
+    it('replaces the layers at runtime and advances each wave with the clock', () => {
+        const { world, tick } = createWorld({ seed: 1 });
+        const changed = vi.fn();
+        world.on('configChanged', changed);
+        
+        world.setWaveLayers([{ amplitude: 12 }, { amplitude: 6 }]);
+        expect(world.serialize().waves.map(wave => wave.components[0].amplitude)).toEqual([12, 6]);
+        expect(changed).toHaveBeenCalledWith({ changes: { waves: [{ amplitude: 12 }, { amplitude: 6 }] } });
+        
+        tick(10);
+        world.serialize().waves.forEach(wave => expect(wave.time).toBeGreaterThan(0));
+        world.destroy();
+    });
+    
+    it('clamps the sea state to non-negative values', () => {
+        const { world } = createWorld({ seed: 1, seaState: 2 });
+        expect(world.getSeaState()).toBe(2);
+        
+        world.setSeaState(-1);
+        expect(world.getSeaState()).toBe(0);
+        world.destroy();
+    });
+});
@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { OceanWorld, OceanWorldWorker, exposeOceanWorld, type OceanWorkerMessage } from '../src/index';
+import { createCanvas, createWorld, stubBrowser } from './helpers';
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+// 模拟 Worker 全局作用域，返回向 Worker 投递消息的函数
+function exposeWorld(): (message: OceanWorkerMessage) => void {
+    let handler: ((event: MessageEvent<OceanWorkerMessage>) => void) | null = null;
+    vi.stubGlobal('requestAnimationFrame', () => 1);
+    vi.stubGlobal('cancelAnimationFrame', () => {});
+    exposeOceanWorld({
+        addEventListener: (_type, listener) => {
+            handler = listener;
+        },
+        removeEventListener: () => {
+            handler = null;
+        }
+    });
+    return (message) => handler?.({ data: message } as MessageEvent<OceanWorkerMessage>);
+}
+
+describe('exposeOceanWorld', () => {
+    it('forwards whitelisted calls to the world', () => {
+        const post = exposeWorld();
+        const addShark = vi.spyOn(OceanWorld.prototype, 'addShark');
+        const setSeaState = vi.spyOn(OceanWorld.prototype, 'setSeaState');
+        
+        post({ type: 'init', canvas: createCanvas(), options: { seed: 1 } });
+        post({ type: 'call', method: 'addShark', args: [{ size: 40 }] });
+        post({ type: 'call', method: 'setSeaState', args: [2] });
+        
+        expect(addShark).toHaveBeenCalledWith({ size: 40 });
+        expect(setSeaState).toHaveBeenCalledWith(2);
+        post({ type: 'destroy' });
+    });
+    
+    it('ignores calls to methods outside the whitelist', () => {
+        const post = exposeWorld();
+        const destroy = vi.spyOn(OceanWorld.prototype, 'destroy');
+        
+        post({ type: 'init', canvas: createCanvas(), options: { seed: 1 } });
+        for (const method of ['destroy', 'registerBehavior', 'constructor', 'updateSharks', 'toString']) {
+            expect(() => post({ type: 'call', method, args: [] } as unknown as OceanWorkerMessage)).not.toThrow();
+        }
+        
+        expect(destroy).not.toHaveBeenCalled();
+        post({ type: 'destroy' });
+        expect(destroy).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('OceanWorldWorker', () => {
+    it('tracks the canvas size with a ResizeObserver and disconnects it on destroy', () => {
+        const browser = stubBrowser();
+        const canvas = browser.createCanvasElement({ cssWidth: 800, cssHeight: 600 });
+        const worker = { postMessage: vi.fn(), terminate: vi.fn() } as unknown as Worker;
+        const ocean = new OceanWorldWorker(canvas, worker);
+        const observers = browser.resizeObservers;
+        
+        expect(observers).toHaveLength(1);
+        expect(observers[0].observed).toEqual([canvas]);
+        expect(browser.window.addEventListener).not.toHaveBeenCalledWith('resize', expect.anything());
+        
+        const postMessage = vi.mocked(worker.postMessage);
+        postMessage.mockClear();
+        observers[0].trigger();
+        expect(postMessage).toHaveBeenCalledWith(expect.objectContaining({ type: 'resize', width: 800, height: 600 }), []);
+        
+        ocean.destroy();
+        expect(observers[0].disconnected).toBe(true);
+        expect(worker.terminate).toHaveBeenCalled();
+    });
+});
+
+describe('OceanWorld.destroy', () => {
+    it('releases the context and ignores later calls', () => {
+        const { world, tick } = createWorld({ seed: 1 });
+        world.destroy();
+        world.destroy();
+        
+        expect(world.isDestroyed()).toBe(true);
+        expect(() => {
+            world.start();
+            tick(5);
+            world.resize(400, 300);
+            world.tap(100, 100);
+        }).not.toThrow();
+        expect(world.getSharks()).toEqual([]);
+    });
+});
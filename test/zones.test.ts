@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createWorld } from './helpers';
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe('swim zones', () => {
+    it('keeps sharks below the water line, even when the pointer is in the sky', () => {
+        const { world, tick } = createWorld({ seed: 1, sharkCount: 3 });
+        world.setPointer(400, 20);
+        
+        for (let i = 0; i < 60; i++) {
+            tick(10);
+            world.getSharks().forEach(shark => expect(shark.y).toBeGreaterThan(600 * 0.2));
+        }
+        world.destroy();
+    });
+    
+    it('follows a path to its last waypoint, including waypoints outside the swim zone', () => {
+        const { world, tick } = createWorld({ seed: 1, sharkCount: 1 });
+        const [shark] = world.getSharks();
+        world.followPath(shark.id, [{ x: 100, y: 200 }, { x: 5, y: 590 }, { x: 700, y: 500 }]);
+        tick(1200);
+        
+        const moved = world.getShark(shark.id)!;
+        expect(Math.hypot(moved.x - 700, moved.y - 500)).toBeLessThanOrEqual(5);
+        world.destroy();
+    });
+    
+    it('confines sharks to included zones and keeps them out of excluded ones', () => {
+        const { world, tick } = createWorld({
+            seed: 2,
+            sharkCount: 3,
+            swimZones: {
+                include: [{ x: 0, y: 0.3, width: 0.5, height: 0.7, units: 'ratio' }],
+                exclude: [{ points: [{ x: 150, y: 380 }, { x: 250, y: 380 }, { x: 250, y: 480 }, { x: 150, y: 480 }] }]
+            }
+        });
+        tick(120);
+        
+        for (let i = 0; i < 60; i++) {
+            tick(10);
+            world.getSharks().forEach(shark => {
+                expect(shark.x).toBeLessThanOrEqual(400);
+                expect(shark.y).toBeGreaterThanOrEqual(180);
+                expect(shark.x > 150 && shark.x < 250 && shark.y > 380 && shark.y < 480).toBe(false);
+            });
+        }
+        world.destroy();
+    });
+    
+    it('breaches out of the water and splashes back in', () => {
+        const { world, tick } = createWorld({ seed: 1, sharkCount: 1 });
+        const [shark] = world.getSharks();
+        const breached = vi.fn();
+        world.on('sharkBreached', breached);
+        
+        expect(world.breachShark(shark.id)).toBe(true);
+        expect(world.breachShark(shark.id)).toBe(false);
+        let highest = Infinity;
+        for (let i = 0; i < 600 && world.getShark(shark.id)!.breaching; i++) {
+            tick();
+            highest = Math.min(highest, world.getShark(shark.id)!.y);
+        }
+        
+        expect(breached).toHaveBeenCalledTimes(1);
+        expect(highest).toBeLessThan(600 * 0.2);
+        expect(world.getShark(shark.id)!.breaching).toBe(false);
+        expect(world.getShark(shark.id)!.y).toBeGreaterThan(600 * 0.2);
+        world.destroy();
+    });
+});